@@ -10,7 +10,12 @@ const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
 type EventMsg = {
     type: "event";
     topic: string;
-    message: { id: string; payload: any };
+    message: {
+        id: string;
+        payload: any;
+        headers?: Record<string, string>;
+        key?: string;
+    };
     ts?: string;
 };
 
@@ -32,6 +37,18 @@ type ServerMsg =
     | { type: "info"; msg: string; topic?: string; ts?: string }
     | EventMsg;
 
+// events get a readable line with their key and headers up front
+function formatLog(msg: ServerMsg): string {
+    if (msg.type !== "event") return JSON.stringify(msg);
+    const { id, payload, headers, key } = msg.message;
+    const parts = [`event ${msg.topic} ${id}`];
+    if (key !== undefined) parts.push(`key=${key}`);
+    for (const [name, value] of Object.entries(headers ?? {}))
+        parts.push(`${name}: ${value}`);
+    parts.push(JSON.stringify(payload));
+    return parts.join(" | ");
+}
+
 function App() {
     const [connected, setConnected] = useState(false);
     const [topic, setTopic] = useState("orders");
@@ -43,6 +60,8 @@ function App() {
     const [payload, setPayload] = useState(
         '{\n  "order_id": "ORD-123",\n  "amount": 99.5,\n  "currency": "USD"\n}'
     );
+    const [headers, setHeaders] = useState("");
+    const [key, setKey] = useState("");
     const [log, setLog] = useState<string[]>([]);
     const socketRef = useRef<Socket | null>(null);
 
@@ -52,7 +71,7 @@ function App() {
         socket.on("connect", () => setConnected(true));
         socket.on("disconnect", () => setConnected(false));
         socket.on("message", (msg: ServerMsg) => {
-            setLog((l) => [JSON.stringify(msg), ...l].slice(0, 200));
+            setLog((l) => [formatLog(msg), ...l].slice(0, 200));
         });
         return () => {
             socket.disconnect();
@@ -110,10 +129,20 @@ function App() {
             alert("Payload must be valid JSON");
             return;
         }
+        const message: EventMsg["message"] = { id: uuidv4(), payload: parsed };
+        if (headers.trim()) {
+            try {
+                message.headers = JSON.parse(headers);
+            } catch {
+                alert("Headers must be valid JSON");
+                return;
+            }
+        }
+        if (key) message.key = key;
         socketRef.current?.emit("message", {
             type: "publish",
             topic,
-            message: { id: uuidv4(), payload: parsed },
+            message,
             request_id: reqId,
         });
     };
@@ -188,6 +217,21 @@ function App() {
                             onChange={(e) => setPayload(e.target.value)}
                         />
                     </label>
+                    <label>
+                        Headers (JSON object, optional)
+                        <input
+                            value={headers}
+                            placeholder='{"tenant": "acme"}'
+                            onChange={(e) => setHeaders(e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        Ordering key (optional)
+                        <input
+                            value={key}
+                            onChange={(e) => setKey(e.target.value)}
+                        />
+                    </label>
                     <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
                         <button onClick={sendSubscribe} disabled={!connected}>
                             Subscribe
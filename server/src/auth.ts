@@ -0,0 +1,156 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import fs from "fs";
+import { z } from "zod";
+
+export type Right = "publish" | "subscribe" | "admin"; // admin implies all
+
+const aclEntrySchema = z.union([
+    z.strictObject({
+        topic: z.string().min(1),
+        rights: z.array(z.enum(["publish", "subscribe", "admin"])),
+    }),
+    z.strictObject({
+        prefix: z.string(), // "" grants every topic
+        rights: z.array(z.enum(["publish", "subscribe", "admin"])),
+    }),
+]);
+export type AclEntry = z.infer<typeof aclEntrySchema>;
+
+export interface Principal {
+    id: string;
+    acl: AclEntry[];
+}
+
+const authConfigSchema = z.object({
+    jwt_secret: z.string().min(16).optional(),
+    api_keys: z
+        .array(
+            z.object({
+                key: z.string().min(16),
+                principal: z.string().min(1),
+                acl: z.array(aclEntrySchema),
+            })
+        )
+        .default([]),
+});
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
+// JWT claims we rely on; exp/nbf are checked when present
+const claimsSchema = z.object({
+    sub: z.string().min(1),
+    acl: z.array(aclEntrySchema),
+    exp: z.number().optional(),
+    nbf: z.number().optional(),
+});
+
+// used for every request when auth is disabled
+export const ANONYMOUS: Principal = {
+    id: "anonymous",
+    acl: [{ prefix: "", rights: ["admin"] }],
+};
+
+export function loadAuthConfig(
+    file: string | undefined,
+    jwtSecret: string | undefined
+): AuthConfig | undefined {
+    if (!file && !jwtSecret) return undefined;
+    const raw = file ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+    const config = authConfigSchema.parse(raw);
+    if (jwtSecret) config.jwt_secret = jwtSecret;
+    return config;
+}
+
+// Resolves a bearer token to a principal: either a static API key from the
+// config or an HS256 JWT signed with the configured secret.
+export class Authenticator {
+    private keys = new Map<string, Principal>(); // key: sha256(api key)
+
+    constructor(private config: AuthConfig | undefined) {
+        for (const k of config?.api_keys ?? [])
+            this.keys.set(digest(k.key), { id: k.principal, acl: k.acl });
+    }
+
+    get enabled(): boolean {
+        return this.config !== undefined;
+    }
+
+    authenticate(token: string | undefined): Principal | undefined {
+        if (!this.config) return ANONYMOUS;
+        if (!token) return undefined;
+        const byKey = this.keys.get(digest(token));
+        if (byKey) return byKey;
+        if (!this.config.jwt_secret) return undefined;
+        const claims = verifyJwt(token, this.config.jwt_secret);
+        return claims && { id: claims.sub, acl: claims.acl };
+    }
+}
+
+export function can(principal: Principal, right: Right, topic: string) {
+    return principal.acl.some(
+        (e) =>
+            ("topic" in e ? e.topic === topic : topic.startsWith(e.prefix)) &&
+            (e.rights.includes(right) || e.rights.includes("admin"))
+    );
+}
+
+// admin on every topic, needed for broker-wide views such as /usage
+export function isAdmin(principal: Principal): boolean {
+    return principal.acl.some(
+        (e) => "prefix" in e && e.prefix === "" && e.rights.includes("admin")
+    );
+}
+
+// The identity a publish is metered under for rate limits. With auth on it
+// is always the principal, so a publisher can neither shed its own limits
+// nor spend another client's quota by naming a different client_id; only
+// without auth, where everyone is ANONYMOUS, does the client_id count.
+export function meteredClient(
+    principal: Principal,
+    clientId: string | undefined
+): string {
+    return principal === ANONYMOUS ? clientId ?? principal.id : principal.id;
+}
+
+// "Bearer <token>" from an Authorization header, or a bare API key
+export function tokenFrom(header: string | undefined): string | undefined {
+    if (!header) return undefined;
+    const m = /^Bearer\s+(.+)$/i.exec(header);
+    return m ? m[1] : header;
+}
+
+function digest(value: string): string {
+    return createHash("sha256").update(value).digest("hex");
+}
+
+function verifyJwt(
+    token: string,
+    secret: string
+): z.infer<typeof claimsSchema> | undefined {
+    const [header, payload, signature, ...rest] = token.split(".");
+    if (!header || !payload || !signature || rest.length) return undefined;
+    const alg = decode(header)?.alg;
+    if (alg !== "HS256") return undefined;
+    const expected = createHmac("sha256", secret)
+        .update(`${header}.${payload}`)
+        .digest();
+    const given = Buffer.from(signature, "base64url");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected))
+        return undefined;
+    const claims = claimsSchema.safeParse(decode(payload));
+    if (!claims.success) return undefined;
+    const now = Date.now() / 1000;
+    if (claims.data.exp !== undefined && now >= claims.data.exp)
+        return undefined;
+    if (claims.data.nbf !== undefined && now < claims.data.nbf)
+        return undefined;
+    return claims.data;
+}
+
+function decode(part: string): Record<string, unknown> | undefined {
+    try {
+        const value = JSON.parse(Buffer.from(part, "base64url").toString());
+        return value && typeof value === "object" ? value : undefined;
+    } catch {
+        return undefined;
+    }
+}
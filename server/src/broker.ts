@@ -1,35 +1,143 @@
-import { Server as SocketIOServer, Socket } from "socket.io";
+import { randomUUID } from "crypto";
 import type {
     AckMessage,
+    ClientUsage,
+    DeadLetter,
+    DeadLetterReason,
+    DeliveryMode,
     EventMessage,
+    EventsMessage,
+    OverflowPolicy,
+    ErrorCode,
     ErrorMessage,
+    GroupStats,
+    HistoryEntry,
     InfoMessage,
+    NodeStats,
     PublishPayload,
+    RedriveResult,
+    ReplayRange,
+    RequestInfo,
+    ResponseMessage,
+    ScheduledEntry,
+    SchemaVersion,
+    SessionInfo,
+    SessionStats,
+    TopicConfig,
+    TopicConfigPatch,
+    StoredMessage,
+    TopicStats,
     UUID,
 } from "./types.js";
+import type { Connection } from "./connection.js";
+import { Session } from "./session.js";
+import { MemoryStorage, type BrokerStorage } from "./storage.js";
+import { RateLimiter, type RateLimitConfig } from "./ratelimit.js";
+import {
+    StandaloneBus,
+    type ClusterBus,
+    type ClusterMessage,
+    type PublishReplica,
+} from "./cluster.js";
+import { isPattern, isValidPattern, matchesPattern } from "./pattern.js";
+import { compileFilter, type Matcher } from "./filter.js";
+import { isTombstone } from "./compaction.js";
+import { MAX_DELAY_MS } from "./schemas.js";
+import {
+    checkCompatible,
+    compileSchema,
+    type PayloadValidator,
+} from "./jsonschema.js";
+import {
+    FANOUT_BUCKETS,
+    Histogram,
+    LATENCY_BUCKETS,
+    type MetricsSnapshot,
+} from "./metrics.js";
 
+// the per-topic settings (see TopicConfig) are defaults topics can override
 export interface BrokerOptions {
     ringBufferSize: number; // per-topic retained messages for replay
     subscriberQueueSize: number; // per-subscriber outbound queue bound
     heartbeatIntervalMs: number; // info ping interval
+    ackTimeoutMs: number; // at-least-once: redeliver if not acked within this
+    maxDeliveryAttempts: number; // at-least-once: then drop the event
+    maxInFlight: number; // at-least-once: unacked events per subscriber
+    overflowPolicy: OverflowPolicy; // default for subscriptions not naming one
+    highWaterMark: number; // reject_publish: fraction of the queue bound
+    socketBufferLimit: number; // messages pending on a connection first
+    maxPayloadBytes: number; // JSON-encoded message.payload
+    dedupWindowSize: number; // message ids remembered per topic
+    dedupWindowMs: number; // and for how long
+    nodeStatsIntervalMs: number; // cluster: how often peers get our totals
+    rateLimits: RateLimitConfig;
+    sessionGraceMs: number; // detached sessions are kept this long
+    requestTimeoutMs: number; // default wait for a reply to a request
+    maxGroupKeys: number; // per group: bound ordering keys kept when idle
+}
+
+// retryAfterMs comes with RATE_LIMITED
+export type PublishResult =
+    | { ok: true; ts: string; offset: number; duplicate?: true }
+    | { ok: false; code: ErrorCode; message: string; retryAfterMs?: number };
+
+export type ScheduleResult =
+    | { ok: true; id: string; deliverAt: string }
+    | { ok: false; code: ErrorCode; message: string; retryAfterMs?: number };
+
+export interface PublishOptions {
+    ttlMs?: number | undefined; // counted from the actual publish
+    // the publishing client, metered and rate limited; internal publishes
+    // (delayed, dead letters, peers) have none
+    clientId?: string | undefined;
+    // published again from a dead-letter topic: no dedup
+    redrive?: true | undefined;
+    // into a dead-letter topic: no dedup or checks
+    deadLetter?: DeadLetter | undefined;
+    replicated?: true; // a peer's publish: applied here, not sent on
+    request?: RequestInfo | undefined; // where responders reply
+}
+
+export interface RequestOptions
+    extends Pick<PublishOptions, "ttlMs" | "clientId"> {
+    timeoutMs?: number | undefined; // default: requestTimeoutMs
+}
+
+export interface SubscribeOptions {
+    lastN?: number | undefined;
+    fromOffset?: number | undefined;
+    fromTimestamp?: string | undefined;
+    snapshot?: boolean | undefined; // replay everything retained
+    delivery?: DeliveryMode | undefined;
+    group?: string | undefined;
+    overflow?: OverflowPolicy | undefined;
+    filter?: unknown; // validated by compileFilter at subscribe time
+    batchMs?: number | undefined; // send `events` frames, gathering this long
+    authorize?: ((topic: string) => boolean) | undefined; // ACL check
 }
 
 interface QueuedEvent {
     topic: string;
-    message: PublishPayload;
+    stored: StoredMessage;
+    replay?: true; // sent again on request: no latency sample
 }
 
 class BoundedQueue<T> {
     private items: T[] = [];
     constructor(private capacity: number) {}
-    pushDropOldest(item: T): { dropped: number } {
-        let dropped = 0;
-        if (this.items.length >= this.capacity) {
-            this.items.shift();
-            dropped = 1;
-        }
+    get full(): boolean {
+        return this.items.length >= this.capacity;
+    }
+    // items beyond a smaller capacity stay; pushes evict them one by one
+    resize(capacity: number) {
+        this.capacity = capacity;
+    }
+    // returns the item evicted to make room, if any
+    pushDropOldest(item: T): T | undefined {
+        const dropped =
+            this.items.length >= this.capacity ? this.items.shift() : undefined;
         this.items.push(item);
-        return { dropped };
+        return dropped;
     }
     drain(max: number): T[] {
         if (max <= 0) return [];
@@ -47,15 +155,19 @@ class RingBuffer<T> {
     constructor(private capacity: number) {
         this.buffer = new Array<T | undefined>(capacity);
     }
-    append(value: T) {
-        if (this.capacity === 0) return;
+    // returns the value that was evicted to make room, if any
+    append(value: T): T | undefined {
+        if (this.capacity === 0) return value;
         const end = (this.start + this.count) % this.capacity;
+        const evicted =
+            this.count < this.capacity ? undefined : this.buffer[end];
         this.buffer[end] = value;
         if (this.count < this.capacity) {
             this.count++;
         } else {
             this.start = (this.start + 1) % this.capacity;
         }
+        return evicted;
     }
     last(n: number): T[] {
         const take = Math.min(n, this.count);
@@ -67,35 +179,193 @@ class RingBuffer<T> {
         }
         return out;
     }
+    values(): T[] {
+        return this.last(this.count);
+    }
+    get length(): number {
+        return this.count;
+    }
+    // keeps the newest values that fit; returns the ones that did not
+    resize(capacity: number): T[] {
+        const values = this.values();
+        const keep = values.slice(Math.max(0, values.length - capacity));
+        this.capacity = capacity;
+        this.buffer = new Array<T | undefined>(capacity);
+        this.start = 0;
+        this.count = 0;
+        for (const v of keep) this.append(v);
+        return values.slice(0, values.length - keep.length);
+    }
+}
+
+// a request waiting for its first reply
+interface PendingRequest {
+    conn: Connection; // the requester
+    topic: string;
+    info: RequestInfo;
+    timer: NodeJS.Timeout; // TIMEOUT error when nobody answers
+}
+
+// a delayed publish waiting for its timer
+interface ScheduledMessage {
+    id: string;
+    message: PublishPayload;
+    deliverAt: number; // epoch ms
+    opts: PublishOptions;
+    timer: NodeJS.Timeout;
+}
+
+interface InFlightEvent {
+    event: QueuedEvent;
+    attempts: number;
+    timer?: NodeJS.Timeout;
 }
 
 interface Subscriber {
-    socket: Socket;
+    conn: Connection;
     clientId: string;
     queue: BoundedQueue<QueuedEvent>;
+    delivery: DeliveryMode;
+    inFlight: Map<string, InFlightEvent>; // key: delivery_id
+    // group members: events queued or in flight, per ordering key
+    keyed: Map<string, number>;
+    overflow: OverflowPolicy;
+    missed: number; // dropped since the subscriber was last told
+    group?: string;
+    pattern?: string; // attached through this pattern subscription
+    match?: Matcher;
+    batchMs?: number; // events go out as `events` frames
+    batchTimer?: NodeJS.Timeout | undefined; // gathering a frame
+}
+
+// a subscribe request as accepted; patterns keep theirs to attach topics
+// created later
+interface SubscriptionSpec {
+    conn: Connection;
+    clientId: string;
+    opts: SubscribeOptions;
+    pattern?: string;
+    match?: Matcher;
+}
+
+// members share the topic's messages: each goes to exactly one of them.
+// A message with a key goes to the member the key is bound to, so messages
+// with the same key reach one member in publish order; a key is bound on
+// first use and freed when its member leaves, or when the group holds more
+// than maxGroupKeys and it is the least recently used key with nothing
+// queued or unacked.
+interface ConsumerGroup {
+    name: string;
+    members: string[]; // connection ids, in join order
+    next: number; // round-robin cursor for tie-breaks
+    // key: ordering key, value: connection id; least recently used first
+    keys: Map<string, string>;
+    stats: { delivered: number; dropped: number };
 }
 
 interface Topic {
     name: string;
-    subscribers: Map<string, Subscriber>; // key: socket.id
-    ring: RingBuffer<PublishPayload>;
+    subscribers: Map<string, Subscriber>; // key: connection id
+    groups: Map<string, ConsumerGroup>;
+    ring: RingBuffer<StoredMessage>;
+    // compacted topics retain here instead: newest message per key, oldest
+    // first
+    latest?: Map<string, StoredMessage>;
+    nextOffset: number;
+    evicted?: { offset: number; ts: number }; // newest no longer retained
+    // dedup window: recently published message ids, oldest first
+    recent: Map<string, { offset: number; ts: number }>;
+    scheduled: Map<string, ScheduledMessage>; // key: schedule id
+    schemas: { schema: unknown; validate: PayloadValidator }[]; // v1 first
+    overrides: TopicConfigPatch; // as configured, persisted
+    config: TopicConfig; // overrides on top of the broker defaults
+    latency: Histogram; // publish to emit, seconds
+    fanout: Histogram; // subscribers each message was queued for
     stats: {
         messages: number;
         subscribers: number;
         delivered: number;
         dropped: number;
+        acked: number;
+        redelivered: number;
+        filtered: number;
+        rejected: number;
+        slow_disconnects: number;
+        duplicates: number;
+        expired: number;
+        dead_lettered: number;
+        rate_limited: number;
     };
 }
 
+const OWN_DEAD_LETTER = "a topic cannot be its own dead-letter topic";
+
 export class InMemoryBroker {
     private topics: Map<string, Topic> = new Map();
-    private io: SocketIOServer;
+    // key: connection id, then pattern
+    private patterns: Map<string, Map<string, SubscriptionSpec>> =
+        new Map();
+    private seq = 0; // broker-wide publish order
+    // subscribers waiting for their connection to drain; key: connection id
+    private stalled: Map<string, Map<Subscriber, Topic>> = new Map();
+    private connections: Map<string, Connection> = new Map();
     private opts: BrokerOptions;
     private heartbeatTimer?: NodeJS.Timeout;
+    private storage: BrokerStorage;
+    private bus: ClusterBus;
+    private limiter: RateLimiter;
+    private statsTimer?: NodeJS.Timeout;
+    private peerStats: Map<string, NodeStats> = new Map(); // key: node id
+    // set while applying a peer's topic change so it is not sent back out
+    private applyingPeer = false;
+    private sessions: Map<string, Session> = new Map(); // key: client_id
+    // key: id of the connection the session is attached to
+    private attachedSessions: Map<string, Session> = new Map();
+    private sessionCounts = { resumed: 0, expired: 0 };
+    private requests: Map<string, PendingRequest> = new Map(); // key: inbox
+    // starts every inbox made here, telling this node's inboxes apart
+    private inboxPrefix = `_inbox.${randomUUID().slice(0, 8)}.`;
 
-    constructor(io: SocketIOServer, opts: BrokerOptions) {
-        this.io = io;
+    constructor(
+        opts: BrokerOptions,
+        storage: BrokerStorage = new MemoryStorage(),
+        bus: ClusterBus = new StandaloneBus("standalone")
+    ) {
         this.opts = opts;
+        this.storage = storage;
+        this.bus = bus;
+        this.limiter = new RateLimiter(opts.rateLimits);
+        this.restore();
+    }
+
+    // rebuild topics and replay buffers from the storage backend
+    private restore() {
+        for (const stored of this.storage.load()) {
+            const topic = this.newTopic(stored.name, stored.config);
+            for (const schema of stored.schemas) {
+                const compiled = compileSchema(schema);
+                if (!compiled.ok)
+                    throw new Error(`${stored.name}: ${compiled.error}`);
+                topic.schemas.push({ schema, validate: compiled.validate });
+            }
+            const first = stored.messages[0];
+            const { last } = stored;
+            // older offsets were compacted away before the restart, and
+            // with retention 0 all of them
+            if (first && first.offset > 0)
+                topic.evicted = { offset: first.offset - 1, ts: first.ts };
+            else if (!first && last)
+                topic.evicted = { offset: last.offset, ts: last.ts };
+            for (const m of stored.messages) {
+                this.retain(topic, m);
+                this.remember(topic, m);
+            }
+            if (last) {
+                topic.nextOffset = last.offset + 1;
+                this.seq = Math.max(this.seq, last.seq + 1);
+            }
+            this.topics.set(stored.name, topic);
+        }
     }
 
     start() {
@@ -106,12 +376,30 @@ export class InMemoryBroker {
                 msg: "ping",
                 ts: new Date().toISOString(),
             };
-            this.io.sockets.sockets.forEach((s) => s.emit("message", msg));
+            this.connections.forEach((c) => c.send(msg));
         }, this.opts.heartbeatIntervalMs);
+        this.bus.start({
+            message: (msg, from) => this.handlePeer(msg, from),
+            snapshot: () => this.snapshot(),
+        });
+        if (this.statsTimer) clearInterval(this.statsTimer);
+        this.statsTimer = setInterval(() => {
+            this.bus.broadcast({ kind: "stats", stats: this.nodeStats() });
+        }, this.opts.nodeStatsIntervalMs);
+        this.statsTimer.unref();
     }
 
     stop() {
         if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        if (this.statsTimer) clearInterval(this.statsTimer);
+        this.bus.stop();
+        for (const topic of this.topics.values())
+            for (const s of topic.scheduled.values()) clearTimeout(s.timer);
+        for (const session of this.sessions.values())
+            clearTimeout(session.expiry);
+        for (const pending of this.requests.values())
+            clearTimeout(pending.timer);
+        this.storage.close();
     }
 
     getHealth() {
@@ -121,40 +409,434 @@ export class InMemoryBroker {
             uptime_sec: Math.floor(process.uptime()),
             topics: this.topics.size,
             subscribers,
+            cluster: {
+                node: this.bus.nodeId,
+                members: this.bus.members(),
+                peers: this.bus.peers(),
+            },
         };
     }
 
-    getTopics() {
-        return Array.from(this.topics.values()).map((t) => ({
+    // `visible` limits listings to the topics a caller may see (ACLs)
+    getTopics(visible: (topic: string) => boolean = () => true) {
+        return Array.from(this.topics.values())
+            .filter((t) => visible(t.name))
+            .map((t) => this.summarize(t));
+    }
+
+    // one topic with its effective configuration
+    describeTopic(name: string) {
+        const topic = this.getTopic(name);
+        if (!topic) return undefined;
+        return { ...this.summarize(topic), config: topic.config };
+    }
+
+    private summarize(t: Topic) {
+        return {
             name: t.name,
             subscribers: t.subscribers.size,
-        }));
+            groups: Array.from(t.groups.values()).map((g) => ({
+                name: g.name,
+                members: g.members.length,
+            })),
+        };
     }
 
-    getStats() {
-        const topics: Record<string, Topic["stats"]> = {};
+    getStats(visible: (topic: string) => boolean = () => true) {
+        const topics: Record<string, TopicStats> = {};
         for (const [name, t] of this.topics)
-            topics[name] = { ...t.stats, subscribers: t.subscribers.size };
-        return { topics };
+            if (visible(name)) topics[name] = this.topicStats(t);
+        const nodes: Record<string, NodeStats> = {
+            [this.bus.nodeId]: this.nodeStats(),
+        };
+        for (const [node, stats] of this.peerStats) nodes[node] = stats;
+        return {
+            topics,
+            sessions: this.sessionStats(),
+            cluster: { node: this.bus.nodeId, nodes },
+        };
+    }
+
+    private sessionStats(): SessionStats {
+        let connected = 0;
+        for (const session of this.sessions.values())
+            if (session.conn) connected++;
+        return {
+            connected,
+            detached: this.sessions.size - connected,
+            ...this.sessionCounts,
+        };
+    }
+
+    // this node's totals; peers report theirs every nodeStatsIntervalMs
+    private nodeStats(): NodeStats {
+        const stats: NodeStats = {
+            connections: this.connections.size,
+            topics: this.topics.size,
+            subscribers: 0,
+            messages: 0,
+            delivered: 0,
+            dropped: 0,
+            ts: new Date().toISOString(),
+        };
+        for (const t of this.topics.values()) {
+            stats.subscribers += t.subscribers.size;
+            stats.messages += t.stats.messages;
+            stats.delivered += t.stats.delivered;
+            stats.dropped += t.stats.dropped;
+        }
+        return stats;
+    }
+
+    // send a topic change to the other nodes, unless it came from one
+    private replicate(msg: ClusterMessage) {
+        if (!this.applyingPeer) this.bus.broadcast(msg);
+    }
+
+    // every topic as a create, for a node that (re)joins
+    private snapshot(): ClusterMessage[] {
+        return Array.from(this.topics.values()).map((t) => ({
+            kind: "create",
+            topic: t.name,
+            config: t.overrides,
+            schemas: t.schemas.map((s) => s.schema),
+        }));
+    }
+
+    // apply another node's change; conflicts (topic already created or
+    // gone) mean this node has it already and are ignored
+    private handlePeer(msg: ClusterMessage, from: string) {
+        if (msg.kind === "stats") {
+            this.peerStats.set(from, msg.stats);
+            return;
+        }
+        if (msg.kind === "publish") {
+            this.publish(msg.topic, msg.message, {
+                ttlMs: msg.ttl_ms,
+                deadLetter: msg.dead_letter,
+                redrive: msg.redrive,
+                request: msg.request,
+                replicated: true,
+            });
+            return;
+        }
+        if (msg.kind === "reply") {
+            this.reply(msg.reply_to, msg.correlation_id, msg.message, true);
+            return;
+        }
+        this.applyingPeer = true;
+        try {
+            switch (msg.kind) {
+                case "create": {
+                    const [first, ...rest] = msg.schemas;
+                    const init = { config: msg.config, schema: first };
+                    if (!this.createTopic(msg.topic, init).ok) break;
+                    for (const schema of rest)
+                        this.registerSchema(msg.topic, schema);
+                    break;
+                }
+                case "delete":
+                    this.deleteTopic(msg.topic);
+                    break;
+                case "configure":
+                    this.configureTopic(msg.topic, msg.config);
+                    break;
+                case "schema":
+                    this.registerSchema(msg.topic, msg.schema);
+                    break;
+            }
+        } finally {
+            this.applyingPeer = false;
+        }
     }
 
-    createTopic(name: string): { ok: true } | { ok: false; conflict: true } {
+    private topicStats(t: Topic): TopicStats {
+        let inFlight = 0;
+        for (const sub of t.subscribers.values()) inFlight += sub.inFlight.size;
+        const groups: Record<string, GroupStats> = {};
+        for (const g of t.groups.values())
+            groups[g.name] = {
+                ...g.stats,
+                members: g.members.length,
+                keys: g.keys.size,
+            };
+        return {
+            ...t.stats,
+            subscribers: t.subscribers.size,
+            in_flight: inFlight,
+            scheduled: t.scheduled.size,
+            groups,
+            ...(t.latest && { compacted_keys: t.latest.size }),
+        };
+    }
+
+    // counters, queue depths and histograms for the /metrics endpoint
+    getMetrics(
+        visible: (topic: string) => boolean = () => true
+    ): MetricsSnapshot {
+        const connections: Record<string, number> = {};
+        for (const conn of this.connections.values())
+            connections[conn.transport] =
+                (connections[conn.transport] ?? 0) + 1;
+        const topics = Array.from(this.topics.values()).filter((t) =>
+            visible(t.name)
+        );
+        return {
+            topics: topics.map((t) => {
+                const {
+                    groups: _groups,
+                    compacted_keys: _keys,
+                    ...stats
+                } = this.topicStats(t);
+                let queued = 0;
+                let maxQueued = 0;
+                for (const sub of t.subscribers.values()) {
+                    queued += sub.queue.length;
+                    maxQueued = Math.max(maxQueued, sub.queue.length);
+                }
+                return {
+                    name: t.name,
+                    stats,
+                    queued,
+                    max_queued: maxQueued,
+                    retained: t.latest?.size ?? t.ring.length,
+                    latency: t.latency,
+                    fanout: t.fanout,
+                };
+            }),
+            connections,
+        };
+    }
+
+    hasTopic(name: string): boolean {
+        return this.topics.has(name);
+    }
+
+    // the unexpired retained messages of a topic, oldest first; only the
+    // last `lastN` of them when given
+    getHistory(name: string, lastN?: number): HistoryEntry[] | undefined {
+        const topic = this.getTopic(name);
+        if (!topic) return undefined;
+        return this.retained(topic)
+            .slice(lastN === undefined ? 0 : -lastN)
+            .map((s) => {
+                const entry: HistoryEntry = {
+                    message: s.message,
+                    offset: s.offset,
+                    ts: new Date(s.ts).toISOString(),
+                };
+                if (s.dead_letter) entry.dead_letter = s.dead_letter;
+                return entry;
+            });
+    }
+
+    // publish retained dead letters again on their source topics, all of
+    // them or those at `offsets`; they stay in the dead-letter topic
+    redrive(
+        name: string,
+        offsets?: number[],
+        authorize?: (topic: string) => boolean
+    ): { ok: true; results: RedriveResult[] } | { ok: false; notFound: true } {
+        const topic = this.getTopic(name);
+        if (!topic) return { ok: false, notFound: true } as const;
+        const wanted = offsets && new Set(offsets);
+        const results: RedriveResult[] = [];
+        for (const stored of this.retained(topic)) {
+            const source = stored.dead_letter?.topic;
+            if (source === undefined) continue;
+            if (wanted && !wanted.has(stored.offset)) continue;
+            const result: PublishResult =
+                !authorize || authorize(source)
+                    ? this.publish(source, stored.message, { redrive: true })
+                    : {
+                          ok: false,
+                          code: "UNAUTHORIZED",
+                          message: `missing publish right on ${source}`,
+                      };
+            const { offset } = stored;
+            if (result.ok)
+                results.push({
+                    offset,
+                    topic: source,
+                    status: "ok",
+                    new_offset: result.offset,
+                });
+            else
+                results.push({
+                    offset,
+                    topic: source,
+                    status: "error",
+                    error: { code: result.code, message: result.message },
+                });
+        }
+        return { ok: true, results };
+    }
+
+    createTopic(
+        name: string,
+        init: { schema?: unknown; config?: TopicConfigPatch } = {}
+    ):
+        | { ok: true }
+        | { ok: false; conflict: true }
+        | { ok: false; error: string } {
         if (this.topics.has(name))
             return { ok: false, conflict: true } as const;
-        const topic: Topic = {
+        const { schema, config = {} } = init;
+        if (config.dead_letter === name)
+            return { ok: false, error: OWN_DEAD_LETTER } as const;
+        const topic = this.newTopic(name, config);
+        if (schema !== undefined) {
+            const compiled = compileSchema(schema);
+            if (!compiled.ok) return compiled;
+            topic.schemas.push({ schema, validate: compiled.validate });
+        }
+        this.storage.createTopic(name);
+        if (Object.keys(config).length > 0)
+            this.storage.configureTopic(name, config);
+        if (schema !== undefined) this.storage.addSchema(name, schema);
+        this.replicate({
+            kind: "create",
+            topic: name,
+            config,
+            schemas: schema === undefined ? [] : [schema],
+        });
+        this.topics.set(name, topic);
+        for (const patterns of this.patterns.values())
+            for (const spec of patterns.values())
+                if (spec.pattern && matchesPattern(spec.pattern, name))
+                    this.attach(topic, spec);
+        return { ok: true } as const;
+    }
+
+    // change a live topic's settings. The replay buffer keeps its newest
+    // messages when shrunk; subscriber queues keep what they hold and
+    // only accept up to the new bound from now on. A new overflow default
+    // applies to subscriptions made afterwards.
+    configureTopic(
+        name: string,
+        patch: TopicConfigPatch
+    ):
+        | { ok: true; config: TopicConfig }
+        | { ok: false; notFound: true }
+        | { ok: false; error: string } {
+        const topic = this.getTopic(name);
+        if (!topic) return { ok: false, notFound: true } as const;
+        if (patch.dead_letter === name)
+            return { ok: false, error: OWN_DEAD_LETTER } as const;
+        if (
+            patch.compacted !== undefined &&
+            patch.compacted !== topic.config.compacted
+        )
+            return {
+                ok: false,
+                error: "compacted can only be set when a topic is created",
+            } as const;
+        topic.overrides = { ...topic.overrides, ...patch };
+        this.storage.configureTopic(name, topic.overrides);
+        this.replicate({ kind: "configure", topic: name, config: patch });
+        const previous = topic.config;
+        topic.config = this.resolveConfig(topic.overrides);
+        if (topic.config.retention !== previous.retention) {
+            const evicted = topic.ring.resize(topic.config.retention);
+            const newest = evicted[evicted.length - 1];
+            if (newest)
+                topic.evicted = { offset: newest.offset, ts: newest.ts };
+        }
+        if (topic.config.queue_size !== previous.queue_size)
+            for (const sub of topic.subscribers.values())
+                sub.queue.resize(topic.config.queue_size);
+        return { ok: true, config: topic.config };
+    }
+
+    private resolveConfig(overrides: TopicConfigPatch): TopicConfig {
+        return {
+            retention: overrides.retention ?? this.opts.ringBufferSize,
+            queue_size: overrides.queue_size ?? this.opts.subscriberQueueSize,
+            overflow: overrides.overflow ?? this.opts.overflowPolicy,
+            max_payload_bytes:
+                overrides.max_payload_bytes ?? this.opts.maxPayloadBytes,
+            dead_letter: overrides.dead_letter ?? null,
+            compacted: overrides.compacted ?? false,
+        };
+    }
+
+    // add a payload schema version; it must accept everything the current
+    // version accepts
+    registerSchema(
+        name: string,
+        schema: unknown
+    ):
+        | { ok: true; version: number }
+        | { ok: false; notFound: true }
+        | { ok: false; error: string } {
+        const topic = this.getTopic(name);
+        if (!topic) return { ok: false, notFound: true } as const;
+        const compiled = compileSchema(schema);
+        if (!compiled.ok) return compiled;
+        const current = topic.schemas[topic.schemas.length - 1];
+        if (current) {
+            const incompatible = checkCompatible(current.schema, schema);
+            if (incompatible)
+                return {
+                    ok: false,
+                    error: `not backward compatible with v${topic.schemas.length}: ${incompatible}`,
+                };
+        }
+        this.storage.addSchema(name, schema);
+        this.replicate({ kind: "schema", topic: name, schema });
+        topic.schemas.push({ schema, validate: compiled.validate });
+        return { ok: true, version: topic.schemas.length };
+    }
+
+    getSchemas(name: string): SchemaVersion[] | undefined {
+        return this.getTopic(name)?.schemas.map((s, i) => ({
+            version: i + 1,
+            schema: s.schema,
+        }));
+    }
+
+    private newTopic(name: string, overrides: TopicConfigPatch = {}): Topic {
+        const config = this.resolveConfig(overrides);
+        return {
             name,
             subscribers: new Map(),
-            ring: new RingBuffer<PublishPayload>(this.opts.ringBufferSize),
-            stats: { messages: 0, subscribers: 0, delivered: 0, dropped: 0 },
+            groups: new Map(),
+            ring: new RingBuffer<StoredMessage>(config.retention),
+            ...(config.compacted && { latest: new Map() }),
+            nextOffset: 0,
+            recent: new Map(),
+            scheduled: new Map(),
+            schemas: [],
+            overrides,
+            config,
+            latency: new Histogram(LATENCY_BUCKETS),
+            fanout: new Histogram(FANOUT_BUCKETS),
+            stats: {
+                messages: 0,
+                subscribers: 0,
+                delivered: 0,
+                dropped: 0,
+                acked: 0,
+                redelivered: 0,
+                filtered: 0,
+                rejected: 0,
+                slow_disconnects: 0,
+                duplicates: 0,
+                expired: 0,
+                dead_lettered: 0,
+                rate_limited: 0,
+            },
         };
-        this.topics.set(name, topic);
-        return { ok: true } as const;
     }
 
     deleteTopic(name: string): { ok: true } | { ok: false; notFound: true } {
         const topic = this.topics.get(name);
         if (!topic) return { ok: false, notFound: true } as const;
-        // inform and disconnect all subscribers
+        this.storage.deleteTopic(name);
+        this.replicate({ kind: "delete", topic: name });
+        this.limiter.forgetTopic(name);
+        // inform and disconnect all subscribers; pattern subscribers only
+        // lose this topic and stay connected for the rest of their matches
         const info: InfoMessage = {
             type: "info",
             topic: name,
@@ -162,9 +844,11 @@ export class InMemoryBroker {
             ts: new Date().toISOString(),
         };
         for (const sub of topic.subscribers.values()) {
-            sub.socket.emit("message", info);
-            sub.socket.disconnect(true);
+            this.release(sub);
+            sub.conn.send(info);
+            if (!sub.pattern) sub.conn.close();
         }
+        for (const s of topic.scheduled.values()) clearTimeout(s.timer);
         this.topics.delete(name);
         return { ok: true } as const;
     }
@@ -173,34 +857,275 @@ export class InMemoryBroker {
         return this.topics.get(name);
     }
 
+    private retain(topic: Topic, stored: StoredMessage) {
+        const { latest } = topic;
+        if (!latest) {
+            const evicted = topic.ring.append(stored);
+            if (evicted)
+                topic.evicted = { offset: evicted.offset, ts: evicted.ts };
+            return;
+        }
+        // what a key replaces, a tombstone and a keyless dead letter are
+        // gone for a from_offset resume
+        const key = stored.message.key;
+        const replaced = key === undefined ? undefined : latest.get(key);
+        if (key !== undefined) latest.delete(key); // re-insert as newest
+        if (key === undefined || isTombstone(stored.message)) {
+            topic.evicted = { offset: stored.offset, ts: stored.ts };
+            return;
+        }
+        latest.set(key, stored);
+        if (replaced && replaced.offset > (topic.evicted?.offset ?? -1))
+            topic.evicted = { offset: replaced.offset, ts: replaced.ts };
+    }
+
+    // the replay buffer, or a compacted topic's newest message per key,
+    // minus messages past their ttl
+    private retained(topic: Topic): StoredMessage[] {
+        const now = Date.now();
+        const values = topic.latest
+            ? Array.from(topic.latest.values())
+            : topic.ring.values();
+        return values.filter((m) => !expired(m, now));
+    }
+
+    private remember(topic: Topic, stored: StoredMessage) {
+        topic.recent.delete(stored.message.id); // re-insert as newest
+        topic.recent.set(stored.message.id, {
+            offset: stored.offset,
+            ts: stored.ts,
+        });
+        if (topic.recent.size > this.opts.dedupWindowSize) {
+            const oldest = topic.recent.keys().next();
+            if (!oldest.done) topic.recent.delete(oldest.value);
+        }
+    }
+
+    // the original publish of a message id still inside the dedup window
+    private findDuplicate(topic: Topic, id: string, now: number) {
+        for (const [key, seen] of topic.recent) {
+            if (now - seen.ts <= this.opts.dedupWindowMs) break;
+            topic.recent.delete(key);
+        }
+        return topic.recent.get(id);
+    }
+
+    // a key on compacted topics, the size limit, then the topic's current
+    // payload schema, which tombstones skip
+    private checkPayload(topic: Topic, message: PublishPayload) {
+        if (topic.latest && message.key === undefined)
+            return {
+                ok: false,
+                code: "BAD_REQUEST",
+                message: `messages on compacted topic ${topic.name} need a key`,
+            } as const;
+        const limit = topic.config.max_payload_bytes;
+        const size = Buffer.byteLength(JSON.stringify(message.payload) ?? "");
+        if (size > limit)
+            return {
+                ok: false,
+                code: "BAD_REQUEST",
+                message: `payload is ${size} bytes, limit is ${limit}`,
+            } as const;
+        if (topic.latest && isTombstone(message)) return undefined;
+        const version = topic.schemas.length;
+        const error = topic.schemas[version - 1]?.validate(message.payload);
+        if (!error) return undefined;
+        return {
+            ok: false,
+            code: "BAD_REQUEST",
+            message: `payload does not match schema v${version} of ${topic.name} ${error}`,
+        } as const;
+    }
+
+    // count a client's publish against its own limits, the topic's and the
+    // broker-wide ones
+    private checkRate(
+        topic: Topic,
+        message: PublishPayload,
+        clientId: string
+    ) {
+        const bytes = Buffer.byteLength(JSON.stringify(message.payload) ?? "");
+        const denied = this.limiter.take(clientId, topic.name, bytes);
+        if (!denied) return undefined;
+        topic.stats.rate_limited++;
+        const who = {
+            client: `client ${clientId}`,
+            topic: `topic ${topic.name}`,
+            global: "the broker",
+        }[denied.scope];
+        const what = {
+            rate: "rate limit",
+            daily_messages: "daily message quota",
+            daily_bytes: "daily byte quota",
+        }[denied.limit];
+        return {
+            ok: false,
+            code: "RATE_LIMITED",
+            message: `${who} is over its ${what}`,
+            retryAfterMs: denied.retryAfterMs,
+        } as const;
+    }
+
+    // today's usage of one publishing client, or of all that were active
+    getUsage(clientId: string): ClientUsage {
+        return this.limiter.usage(clientId);
+    }
+
+    listUsage(): ClientUsage[] {
+        return this.limiter.allUsage();
+    }
+
+    private sendError(
+        conn: Connection,
+        code: ErrorCode,
+        message: string,
+        requestId?: UUID
+    ) {
+        const err: ErrorMessage = {
+            type: "error",
+            error: { code, message },
+            ts: new Date().toISOString(),
+        };
+        if (requestId) err.request_id = requestId;
+        conn.send(err);
+    }
+
     subscribe(
-        socket: Socket,
+        conn: Connection,
         topicName: string,
         clientId: string,
-        lastN: number | undefined,
+        opts: SubscribeOptions,
         requestId?: UUID
     ) {
+        const owner = this.subscriberFor(conn, clientId, requestId);
+        if (!owner) return;
+        conn = owner;
+        const pattern = isPattern(topicName);
+        if (pattern && !isValidPattern(topicName))
+            return this.sendError(
+                conn,
+                "BAD_REQUEST",
+                `invalid topic pattern ${topicName}`,
+                requestId
+            );
+        const { authorize } = opts;
+        if (!pattern && authorize && !authorize(topicName))
+            return this.sendError(
+                conn,
+                "UNAUTHORIZED",
+                `not allowed to subscribe to ${topicName}`,
+                requestId
+            );
         const topic = this.getTopic(topicName);
-        if (!topic) {
-            const err: ErrorMessage = {
-                type: "error",
-                error: {
-                    code: "TOPIC_NOT_FOUND",
-                    message: `topic ${topicName} not found`,
-                },
-                ts: new Date().toISOString(),
-            };
-            if (requestId) err.request_id = requestId;
-            socket.emit("message", err);
-            return;
+        if (!pattern && !topic) {
+            return this.sendError(
+                conn,
+                "TOPIC_NOT_FOUND",
+                `topic ${topicName} not found`,
+                requestId
+            );
         }
-        const sub: Subscriber = {
-            socket,
-            clientId,
-            queue: new BoundedQueue<QueuedEvent>(this.opts.subscriberQueueSize),
-        };
-        topic.subscribers.set(socket.id, sub);
-        topic.stats.subscribers = topic.subscribers.size;
+        const { lastN, fromOffset, fromTimestamp, snapshot } = opts;
+        const starts = [lastN, fromOffset, fromTimestamp, snapshot].filter(
+            (v) => v !== undefined
+        );
+        if (starts.length > 1)
+            return this.sendError(
+                conn,
+                "BAD_REQUEST",
+                "use only one of last_n, from_offset, from_timestamp, snapshot",
+                requestId
+            );
+        if (pattern && fromOffset !== undefined)
+            return this.sendError(
+                conn,
+                "BAD_REQUEST",
+                "from_offset cannot be used with a topic pattern",
+                requestId
+            );
+        let fromTs: number | undefined;
+        if (fromTimestamp !== undefined) {
+            fromTs = Date.parse(fromTimestamp);
+            if (Number.isNaN(fromTs))
+                return this.sendError(
+                    conn,
+                    "BAD_REQUEST",
+                    "from_timestamp must be an ISO 8601 timestamp",
+                    requestId
+                );
+        }
+
+        const spec: SubscriptionSpec = { conn, clientId, opts };
+        if (opts.filter !== undefined) {
+            const compiled = compileFilter(opts.filter);
+            if (!compiled.ok)
+                return this.sendError(
+                    conn,
+                    "BAD_REQUEST",
+                    compiled.error,
+                    requestId
+                );
+            spec.match = compiled.match;
+        }
+
+        const attached: Topic[] = [];
+        if (topic) {
+            this.attach(topic, spec);
+            attached.push(topic);
+        } else {
+            spec.pattern = topicName;
+            let patterns = this.patterns.get(conn.id);
+            if (!patterns) {
+                patterns = new Map();
+                this.patterns.set(conn.id, patterns);
+            }
+            patterns.set(topicName, spec);
+            for (const t of this.topics.values())
+                if (matchesPattern(topicName, t.name) && this.attach(t, spec))
+                    attached.push(t);
+        }
+
+        // replay set across every attached topic, in publish order, minus
+        // what the filter rejects
+        const collect = (pick: (t: Topic) => StoredMessage[]) =>
+            attached
+                .flatMap((t) =>
+                    pick(t)
+                        .filter((stored) => {
+                            if (!spec.match || spec.match(stored.message))
+                                return true;
+                            t.stats.filtered++;
+                            return false;
+                        })
+                        .map((stored) => ({
+                            topic: t.name,
+                            stored,
+                            replay: true as const,
+                        }))
+                )
+                .sort((a, b) => a.stored.seq - b.stored.seq);
+        let replay: QueuedEvent[] | undefined;
+        let evicted = false;
+        if (snapshot) {
+            replay = collect((t) => this.retained(t));
+        } else if (lastN && lastN > 0) {
+            replay = collect((t) => this.retained(t).slice(-lastN)).slice(
+                -lastN
+            );
+        } else if (fromOffset !== undefined && topic) {
+            replay = collect((t) =>
+                this.retained(t).filter((m) => m.offset >= fromOffset)
+            );
+            evicted = !!topic.evicted && topic.evicted.offset >= fromOffset;
+        } else if (fromTs !== undefined) {
+            const since = fromTs;
+            replay = collect((t) =>
+                this.retained(t).filter((m) => m.ts >= since)
+            );
+            evicted = !!topic?.evicted && topic.evicted.ts >= since;
+        }
+
         const ack: AckMessage = {
             type: "ack",
             topic: topicName,
@@ -208,43 +1133,154 @@ export class InMemoryBroker {
             ts: new Date().toISOString(),
         };
         if (requestId) ack.request_id = requestId;
-        socket.emit("message", ack);
-        // replay
-        if (lastN && lastN > 0) {
-            const toSend = topic.ring.last(lastN);
-            for (const m of toSend) {
-                const { dropped } = sub.queue.pushDropOldest({
-                    topic: topicName,
-                    message: m,
-                });
-                if (dropped > 0) topic.stats.dropped += dropped;
-                this.flush(sub, topic);
+        if (pattern) ack.topics = attached.map((t) => t.name);
+        if (replay) {
+            const range: ReplayRange = { count: replay.length };
+            const first = replay[0];
+            const last = replay[replay.length - 1];
+            if (topic && first && last) {
+                range.from_offset = first.stored.offset;
+                range.to_offset = last.stored.offset;
             }
+            ack.replay = range;
+        }
+        conn.send(ack);
+        if (evicted && topic?.evicted) {
+            const info: InfoMessage = {
+                type: "info",
+                topic: topicName,
+                msg: "offset_evicted",
+                earliest_offset: topic.evicted.offset + 1,
+                ts: new Date().toISOString(),
+            };
+            if (fromOffset !== undefined) info.requested_offset = fromOffset;
+            conn.send(info);
+        }
+        // replay (to this subscriber only, grouped or not)
+        for (const ev of replay ?? []) {
+            const t = this.topics.get(ev.topic);
+            const sub = t?.subscribers.get(conn.id);
+            if (t && sub) this.enqueue(t, sub, ev);
         }
     }
 
+    // add a connection's subscription to one topic; an exact subscription
+    // replaces whatever the connection had there, a pattern never displaces
+    // another subscription so each message reaches a connection once per
+    // topic
+    private attach(
+        topic: Topic,
+        spec: SubscriptionSpec
+    ): Subscriber | undefined {
+        const { conn, opts, pattern } = spec;
+        // patterns silently skip topics the subscriber may not read
+        if (opts.authorize && !opts.authorize(topic.name)) return;
+        const previous = topic.subscribers.get(conn.id);
+        if (previous && pattern && previous.pattern !== pattern) return;
+        const sub: Subscriber = {
+            conn,
+            clientId: spec.clientId,
+            queue: new BoundedQueue<QueuedEvent>(topic.config.queue_size),
+            delivery: opts.delivery ?? "at_most_once",
+            inFlight: new Map(),
+            keyed: new Map(),
+            overflow: opts.overflow ?? topic.config.overflow,
+            missed: 0,
+        };
+        if (opts.group) sub.group = opts.group;
+        if (pattern) sub.pattern = pattern;
+        if (spec.match) sub.match = spec.match;
+        if (opts.batchMs !== undefined) sub.batchMs = opts.batchMs;
+        // a session subscribing again, as a client that does not know it
+        // was resumed would, keeps what was held for it
+        const carried =
+            previous && conn instanceof Session ? this.release(previous) : [];
+        if (previous) this.detach(topic, previous);
+        topic.subscribers.set(conn.id, sub);
+        topic.stats.subscribers = topic.subscribers.size;
+        if (sub.group) {
+            let group = topic.groups.get(sub.group);
+            if (!group) {
+                group = {
+                    name: sub.group,
+                    members: [],
+                    next: 0,
+                    keys: new Map(),
+                    stats: { delivered: 0, dropped: 0 },
+                };
+                topic.groups.set(sub.group, group);
+            }
+            group.members.push(conn.id);
+        }
+        for (const ev of carried) this.enqueue(topic, sub, ev);
+        return sub;
+    }
+
+    // a subscription that went leaves the topic to another of the
+    // connection's patterns that matches it, from the next message on
+    private reattach(topic: Topic, connId: string) {
+        for (const spec of this.patterns.get(connId)?.values() ?? [])
+            if (
+                spec.pattern &&
+                matchesPattern(spec.pattern, topic.name) &&
+                this.attach(topic, spec)
+            )
+                return;
+    }
+
+    // whom a connection subscribes for: the session it opened, if any.
+    // Undefined, after answering with an error, when the client_id is not
+    // the session's.
+    private subscriberFor(
+        conn: Connection,
+        clientId: string,
+        requestId?: UUID
+    ): Connection | undefined {
+        const session = this.attachedSessions.get(conn.id);
+        if (!session) return conn;
+        if (clientId === session.clientId) return session;
+        this.sendError(
+            conn,
+            "BAD_REQUEST",
+            `client_id must be ${session.clientId}, the session's`,
+            requestId
+        );
+        return undefined;
+    }
+
     unsubscribe(
-        socket: Socket,
+        conn: Connection,
         topicName: string,
-        _clientId: string,
+        clientId: string,
         requestId?: UUID
     ) {
-        const topic = this.getTopic(topicName);
-        if (!topic) {
-            const err: ErrorMessage = {
-                type: "error",
-                error: {
-                    code: "TOPIC_NOT_FOUND",
-                    message: `topic ${topicName} not found`,
-                },
-                ts: new Date().toISOString(),
-            };
-            if (requestId) err.request_id = requestId;
-            socket.emit("message", err);
-            return;
+        const owner = this.subscriberFor(conn, clientId, requestId);
+        if (!owner) return;
+        conn = owner;
+        if (isPattern(topicName)) {
+            this.patterns.get(conn.id)?.delete(topicName);
+            for (const t of this.topics.values()) {
+                const sub = t.subscribers.get(conn.id);
+                if (sub?.pattern !== topicName) continue;
+                this.detach(t, sub);
+                this.reattach(t, conn.id);
+            }
+        } else {
+            const topic = this.getTopic(topicName);
+            if (!topic) {
+                return this.sendError(
+                    conn,
+                    "TOPIC_NOT_FOUND",
+                    `topic ${topicName} not found`,
+                    requestId
+                );
+            }
+            const sub = topic.subscribers.get(conn.id);
+            if (sub && !sub.pattern) {
+                this.detach(topic, sub);
+                this.reattach(topic, conn.id);
+            }
         }
-        topic.subscribers.delete(socket.id);
-        topic.stats.subscribers = topic.subscribers.size;
         const ack: AckMessage = {
             type: "ack",
             topic: topicName,
@@ -252,47 +1288,797 @@ export class InMemoryBroker {
             ts: new Date().toISOString(),
         };
         if (requestId) ack.request_id = requestId;
-        socket.emit("message", ack);
+        conn.send(ack);
     }
 
-    publish(topicName: string, message: PublishPayload, requestId?: UUID) {
+    publish(
+        topicName: string,
+        message: PublishPayload,
+        opts: PublishOptions = {}
+    ): PublishResult {
         const topic = this.getTopic(topicName);
         const ts = new Date().toISOString();
         if (!topic) {
             // broadcast error? only to initiator; handled by caller via socket
-            return { ok: false as const, notFound: true as const };
+            return {
+                ok: false,
+                code: "TOPIC_NOT_FOUND",
+                message: `topic ${topicName} not found`,
+            };
         }
-        topic.stats.messages++;
-        topic.ring.append(message);
+        if (!opts.deadLetter) {
+            const invalid = this.checkPayload(topic, message);
+            if (invalid) return invalid;
+        }
+        // a retry after a lost ack: confirm the original, deliver nothing.
+        // Dead letters and redrives repeat an id on purpose.
+        const original =
+            opts.deadLetter || opts.redrive
+                ? undefined
+                : this.findDuplicate(topic, message.id, Date.now());
+        if (original) {
+            topic.stats.duplicates++;
+            return { ok: true, ts, offset: original.offset, duplicate: true };
+        }
+        if (opts.clientId !== undefined) {
+            const limited = this.checkRate(topic, message, opts.clientId);
+            if (limited) return limited;
+        }
+        // push back on publishers while a reject_publish subscriber is behind
+        const highWater = Math.ceil(
+            topic.config.queue_size * this.opts.highWaterMark
+        );
         for (const sub of topic.subscribers.values()) {
-            const { dropped } = sub.queue.pushDropOldest({
+            if (sub.overflow !== "reject_publish") continue;
+            if (sub.queue.length < highWater) continue;
+            topic.stats.rejected++;
+            if (!opts.deadLetter)
+                this.deadLetter(topic, sub, "rejected", message);
+            return {
+                ok: false,
+                code: "SLOW_CONSUMER",
+                message: `subscriber ${sub.clientId} on ${topicName} is over its high-water mark`,
+            };
+        }
+        const stored: StoredMessage = {
+            offset: topic.nextOffset,
+            seq: this.seq,
+            ts: Date.now(),
+            message,
+        };
+        if (opts.ttlMs !== undefined)
+            stored.expires_at = stored.ts + opts.ttlMs;
+        if (opts.deadLetter) stored.dead_letter = opts.deadLetter;
+        if (opts.request) stored.request = opts.request;
+        this.storage.append(topicName, stored);
+        if (!opts.replicated) {
+            const replica: PublishReplica = {
+                kind: "publish",
                 topic: topicName,
                 message,
+            };
+            if (opts.ttlMs !== undefined) replica.ttl_ms = opts.ttlMs;
+            if (opts.deadLetter) replica.dead_letter = opts.deadLetter;
+            if (opts.redrive) replica.redrive = true;
+            if (opts.request) replica.request = opts.request;
+            this.bus.broadcast(replica);
+        }
+        topic.nextOffset++;
+        this.seq++;
+        topic.stats.messages++;
+        this.retain(topic, stored);
+        this.remember(topic, stored);
+        const ev: QueuedEvent = { topic: topicName, stored };
+        // fan out to ungrouped subscribers, one member per group; filters
+        // apply before anything is queued
+        let fanout = 0;
+        for (const sub of topic.subscribers.values()) {
+            if (sub.group) continue;
+            if (sub.match && !sub.match(message)) {
+                topic.stats.filtered++;
+                continue;
+            }
+            this.enqueue(topic, sub, ev);
+            fanout++;
+        }
+        for (const group of topic.groups.values()) {
+            const member = this.pickMember(topic, group, ev);
+            if (!member) {
+                topic.stats.filtered++;
+                continue;
+            }
+            this.enqueue(topic, member, ev);
+            fanout++;
+        }
+        topic.fanout.observe(fanout);
+        return { ok: true, ts, offset: stored.offset };
+    }
+
+    // Publish `message` as a request: its events name a private inbox to
+    // reply to, and the first reply goes to `conn` alone, as a `response`
+    // carrying `requestId`. When nobody answers within the timeout the
+    // requester gets a TIMEOUT error instead.
+    request(
+        conn: Connection,
+        topicName: string,
+        message: PublishPayload,
+        requestId: UUID,
+        opts: RequestOptions = {}
+    ): PublishResult {
+        const { timeoutMs = this.opts.requestTimeoutMs, ...publishOpts } =
+            opts;
+        const info: RequestInfo = {
+            reply_to: this.inboxPrefix + randomUUID(),
+            correlation_id: requestId,
+        };
+        const result = this.publish(topicName, message, {
+            ...publishOpts,
+            request: info,
+        });
+        if (!result.ok) return result;
+        // the original went out with another inbox
+        if (result.duplicate)
+            return {
+                ok: false,
+                code: "BAD_REQUEST",
+                message: `message id ${message.id} was published recently; a request needs a new one`,
+            };
+        const timer = setTimeout(() => {
+            this.requests.delete(info.reply_to);
+            this.sendError(
+                conn,
+                "TIMEOUT",
+                `no reply to ${requestId} within ${timeoutMs} ms`,
+                requestId
+            );
+        }, timeoutMs);
+        this.requests.set(info.reply_to, {
+            conn,
+            topic: topicName,
+            info,
+            timer,
+        });
+        return result;
+    }
+
+    // hand a reply to the requester waiting on `replyTo`. An inbox made on
+    // another node is passed to the peers, if any; only that node knows
+    // whether the request is still waiting, so a forwarded reply is
+    // fire-and-forget and comes back `forwarded` rather than confirmed.
+    reply(
+        replyTo: string,
+        correlationId: string,
+        message: PublishPayload,
+        fromPeer = false
+    ):
+        | { ok: true; forwarded?: true }
+        | { ok: false; code: ErrorCode; message: string } {
+        const limit = this.opts.maxPayloadBytes;
+        const size = Buffer.byteLength(JSON.stringify(message.payload) ?? "");
+        if (size > limit)
+            return {
+                ok: false,
+                code: "BAD_REQUEST",
+                message: `payload is ${size} bytes, limit is ${limit}`,
+            };
+        const pending = this.requests.get(replyTo);
+        if (pending?.info.correlation_id === correlationId) {
+            clearTimeout(pending.timer);
+            this.requests.delete(replyTo);
+            const response: ResponseMessage = {
+                type: "response",
+                request_id: correlationId,
+                topic: pending.topic,
+                message,
+                ts: new Date().toISOString(),
+            };
+            pending.conn.send(response);
+            return { ok: true };
+        }
+        const remote = !replyTo.startsWith(this.inboxPrefix);
+        if (remote && !fromPeer && this.bus.members().some((m) => m.up)) {
+            this.bus.broadcast({
+                kind: "reply",
+                reply_to: replyTo,
+                correlation_id: correlationId,
+                message,
             });
-            if (dropped > 0) topic.stats.dropped += dropped;
+            return { ok: true, forwarded: true };
+        }
+        return {
+            ok: false,
+            code: "BAD_REQUEST",
+            message: `no request waiting on ${replyTo} with correlation_id ${correlationId}: answered, timed out or the requester left`,
+        };
+    }
+
+    // hold a message until `deliverAt` (epoch ms), then publish it; lives
+    // in memory only
+    schedule(
+        topicName: string,
+        message: PublishPayload,
+        deliverAt: number,
+        opts: PublishOptions = {}
+    ): ScheduleResult {
+        const topic = this.getTopic(topicName);
+        if (!topic)
+            return {
+                ok: false,
+                code: "TOPIC_NOT_FOUND",
+                message: `topic ${topicName} not found`,
+            };
+        const invalid = this.checkPayload(topic, message);
+        if (invalid) return invalid;
+        const delay = Math.max(0, deliverAt - Date.now());
+        if (delay > MAX_DELAY_MS)
+            return {
+                ok: false,
+                code: "BAD_REQUEST",
+                message: `deliver_at is more than ${MAX_DELAY_MS} ms away`,
+            };
+        // limits count when the message is accepted, not when it is due
+        const { clientId, ...later } = opts;
+        if (clientId !== undefined) {
+            const limited = this.checkRate(topic, message, clientId);
+            if (limited) return limited;
+        }
+        const id = randomUUID();
+        const timer = setTimeout(() => {
+            topic.scheduled.delete(id);
+            // rejections and dedup hits are counted by publish itself
+            this.publish(topicName, message, later);
+        }, delay);
+        timer.unref();
+        topic.scheduled.set(id, {
+            id,
+            message,
+            deliverAt,
+            opts: later,
+            timer,
+        });
+        return { ok: true, id, deliverAt: new Date(deliverAt).toISOString() };
+    }
+
+    listScheduled(topicName: string): ScheduledEntry[] | undefined {
+        const topic = this.getTopic(topicName);
+        if (!topic) return undefined;
+        return Array.from(topic.scheduled.values())
+            .sort((a, b) => a.deliverAt - b.deliverAt)
+            .map((s) => {
+                const entry: ScheduledEntry = {
+                    id: s.id,
+                    message: s.message,
+                    deliver_at: new Date(s.deliverAt).toISOString(),
+                };
+                if (s.opts.ttlMs !== undefined) entry.ttl_ms = s.opts.ttlMs;
+                return entry;
+            });
+    }
+
+    cancelScheduled(
+        topicName: string,
+        id: string
+    ): { ok: true } | { ok: false; notFound: true } {
+        const scheduled = this.getTopic(topicName)?.scheduled;
+        const entry = scheduled?.get(id);
+        if (!scheduled || !entry) return { ok: false, notFound: true } as const;
+        clearTimeout(entry.timer);
+        scheduled.delete(id);
+        return { ok: true } as const;
+    }
+
+    ackEvent(
+        conn: Connection,
+        topicName: string,
+        deliveryId: string,
+        requestId?: UUID
+    ) {
+        const topic = this.getTopic(topicName);
+        const owner = this.attachedSessions.get(conn.id) ?? conn;
+        const sub = topic?.subscribers.get(owner.id);
+        const entry = sub?.inFlight.get(deliveryId);
+        if (!topic || !sub || !entry) {
+            // already acked, given up on, or never delivered to this connection
+            return this.sendError(
+                conn,
+                "BAD_REQUEST",
+                `unknown delivery_id ${deliveryId}`,
+                requestId
+            );
+        }
+        clearTimeout(entry.timer);
+        sub.inFlight.delete(deliveryId);
+        this.settle(sub, entry.event);
+        topic.stats.acked++;
+        // event acks are high volume; only confirm when the client asks to
+        if (requestId) {
+            const ack: AckMessage = {
+                type: "ack",
+                request_id: requestId,
+                topic: topicName,
+                status: "ok",
+                ts: new Date().toISOString(),
+            };
+            conn.send(ack);
+        }
+        this.flush(sub, topic);
+    }
+
+    // the connection wrote out its backlog: resume the subscribers that
+    // stopped draining their queues because of it
+    handleDrain(conn: Connection) {
+        this.unstall(conn.id);
+        const session = this.attachedSessions.get(conn.id);
+        if (session) this.unstall(session.id);
+    }
+
+    private unstall(id: string) {
+        const stalled = this.stalled.get(id);
+        if (!stalled) return;
+        this.stalled.delete(id);
+        for (const [sub, topic] of stalled)
+            if (topic.subscribers.get(id) === sub) this.flush(sub, topic);
+    }
+
+    // every transport registers its connections so they get the heartbeat
+    handleConnect(conn: Connection) {
+        this.connections.set(conn.id, conn);
+    }
+
+    // a session on the connection is kept for the grace period; the
+    // connection's own subscriptions go
+    handleDisconnect(conn: Connection) {
+        this.connections.delete(conn.id);
+        const session = this.attachedSessions.get(conn.id);
+        if (session) this.suspend(session);
+        this.dropSubscriptions(conn.id);
+        // nobody is left to get the replies
+        for (const [inbox, pending] of this.requests)
+            if (pending.conn === conn) {
+                clearTimeout(pending.timer);
+                this.requests.delete(inbox);
+            }
+    }
+
+    private dropSubscriptions(id: string) {
+        this.patterns.delete(id);
+        this.stalled.delete(id);
+        for (const topic of this.topics.values()) {
+            const sub = topic.subscribers.get(id);
+            if (sub) this.detach(topic, sub);
+        }
+    }
+
+    // Open a durable session for `clientId` on this connection, or resume
+    // the one `token` was issued for, taking it over from the connection
+    // that still has it. Without a token any earlier session of the client
+    // is replaced; an unknown or expired token starts a new session too,
+    // which the ack reports as not resumed.
+    openSession(
+        conn: Connection,
+        clientId: string,
+        principal: string,
+        token: string | undefined,
+        requestId?: UUID
+    ) {
+        const existing = this.sessions.get(clientId);
+        if (existing && existing.principal !== principal)
+            return this.sendError(
+                conn,
+                "UNAUTHORIZED",
+                `session of client ${clientId} belongs to another principal`,
+                requestId
+            );
+        if (existing && token !== undefined && token !== existing.token)
+            return this.sendError(
+                conn,
+                "UNAUTHORIZED",
+                `invalid session token for client ${clientId}`,
+                requestId
+            );
+        // a connection carries one session at a time
+        const current = this.attachedSessions.get(conn.id);
+        if (current) this.suspend(current);
+
+        let session: Session;
+        const resumed = !!existing && token !== undefined;
+        if (existing && resumed) {
+            session = existing;
+            const previous = session.conn;
+            if (previous) {
+                this.attachedSessions.delete(previous.id);
+                session.conn = undefined;
+                previous.close();
+            }
+        } else {
+            if (existing) this.endSession(existing);
+            session = new Session(clientId, principal, (s) =>
+                this.endSession(s)
+            );
+            this.sessions.set(clientId, session);
+        }
+        clearTimeout(session.expiry);
+        session.conn = conn;
+        this.attachedSessions.set(conn.id, session);
+
+        const info: SessionInfo = {
+            client_id: clientId,
+            token: session.token,
+            resumed,
+            subscriptions: this.subscriptionsOf(session.id),
+        };
+        const ack: AckMessage = {
+            type: "ack",
+            status: "ok",
+            session: info,
+            ts: new Date().toISOString(),
+        };
+        if (requestId) ack.request_id = requestId;
+        // sending can drain the connection, which must not flush the held
+        // events ahead of the unacked ones
+        this.stalled.delete(session.id);
+        conn.send(ack);
+        if (!resumed) return;
+        this.sessionCounts.resumed++;
+        // what was held back, unacked events first
+        for (const topic of this.topics.values()) {
+            const sub = topic.subscribers.get(session.id);
+            if (!sub) continue;
+            for (const [deliveryId, entry] of Array.from(sub.inFlight)) {
+                clearTimeout(entry.timer);
+                topic.stats.redelivered++;
+                sub.conn.send(this.transmit(sub, topic, deliveryId, entry));
+            }
             this.flush(sub, topic);
         }
-        return { ok: true as const, ts };
     }
 
-    handleSocketDisconnect(socket: Socket) {
+    // topics and patterns subscribed under a connection or session id
+    private subscriptionsOf(id: string): string[] {
+        const out: string[] = [];
         for (const topic of this.topics.values()) {
-            if (topic.subscribers.delete(socket.id))
-                topic.stats.subscribers = topic.subscribers.size;
+            const sub = topic.subscribers.get(id);
+            if (sub && !sub.pattern) out.push(topic.name);
+        }
+        out.push(...(this.patterns.get(id)?.keys() ?? []));
+        return out;
+    }
+
+    // the session lost its connection: hold its subscriptions for the
+    // grace period. Ack timers stop, so the unacked events do not use up
+    // delivery attempts while nobody can ack them.
+    private suspend(session: Session) {
+        if (session.conn) this.attachedSessions.delete(session.conn.id);
+        session.conn = undefined;
+        for (const topic of this.topics.values()) {
+            const sub = topic.subscribers.get(session.id);
+            if (!sub) continue;
+            for (const entry of sub.inFlight.values())
+                clearTimeout(entry.timer);
+        }
+        clearTimeout(session.expiry);
+        session.expiry = setTimeout(() => {
+            this.sessionCounts.expired++;
+            this.endSession(session);
+        }, this.opts.sessionGraceMs);
+    }
+
+    // a session ends (expired, replaced, or given up on by the broker): its
+    // subscriptions go like a connection's on disconnect, and so does the
+    // connection it is attached to
+    private endSession(session: Session) {
+        clearTimeout(session.expiry);
+        if (this.sessions.get(session.clientId) === session)
+            this.sessions.delete(session.clientId);
+        const conn = session.conn;
+        if (conn) this.attachedSessions.delete(conn.id);
+        session.conn = undefined;
+        this.dropSubscriptions(session.id);
+        conn?.close();
+    }
+
+    // stop redelivery timers of a subscriber that is going away and hand
+    // back everything it has not processed yet (unacked first, then queued)
+    private release(sub: Subscriber): QueuedEvent[] {
+        clearTimeout(sub.batchTimer);
+        sub.batchTimer = undefined;
+        const pending: QueuedEvent[] = [];
+        for (const entry of sub.inFlight.values()) {
+            clearTimeout(entry.timer);
+            pending.push(entry.event);
+        }
+        sub.inFlight.clear();
+        sub.keyed.clear();
+        pending.push(...sub.queue.drain(sub.queue.length));
+        return pending;
+    }
+
+    // remove a subscriber from its topic; a group member's pending events
+    // are handed to the remaining members instead of being lost
+    private detach(topic: Topic, sub: Subscriber) {
+        const pending = this.release(sub);
+        topic.subscribers.delete(sub.conn.id);
+        topic.stats.subscribers = topic.subscribers.size;
+        if (!sub.group) return;
+        const group = topic.groups.get(sub.group);
+        if (!group) return;
+        group.members = group.members.filter((id) => id !== sub.conn.id);
+        for (const [key, id] of group.keys)
+            if (id === sub.conn.id) group.keys.delete(key);
+        if (group.members.length === 0) {
+            topic.groups.delete(group.name);
+            return;
+        }
+        for (const ev of pending) {
+            const member = this.pickMember(topic, group, ev);
+            if (member) this.enqueue(topic, member, ev);
+        }
+    }
+
+    // the member a keyed event's key is bound to if its filter accepts the
+    // event; otherwise the least-loaded member (queued + unacked) whose
+    // filter does, round-robin among equals, which an unbound key is then
+    // bound to
+    private pickMember(
+        topic: Topic,
+        group: ConsumerGroup,
+        ev: QueuedEvent
+    ): Subscriber | undefined {
+        const key = ev.stored.message.key;
+        const boundId = key === undefined ? undefined : group.keys.get(key);
+        const bound =
+            boundId === undefined ? undefined : topic.subscribers.get(boundId);
+        if (bound && (!bound.match || bound.match(ev.stored.message))) {
+            if (key !== undefined && boundId !== undefined) {
+                group.keys.delete(key); // re-insert as most recently used
+                group.keys.set(key, boundId);
+            }
+            return bound;
+        }
+        const n = group.members.length;
+        let best: Subscriber | undefined;
+        let bestLoad = Infinity;
+        let bestIdx = 0;
+        for (let i = 0; i < n; i++) {
+            const idx = (group.next + i) % n;
+            const id = group.members[idx];
+            const sub =
+                id === undefined ? undefined : topic.subscribers.get(id);
+            if (!sub || (sub.match && !sub.match(ev.stored.message))) continue;
+            const load = sub.queue.length + sub.inFlight.size;
+            if (load < bestLoad) {
+                best = sub;
+                bestLoad = load;
+                bestIdx = idx;
+            }
+        }
+        group.next = bestIdx + 1;
+        if (best && key !== undefined && !bound) {
+            group.keys.set(key, best.conn.id);
+            this.trimKeys(topic, group);
+        }
+        return best;
+    }
+
+    // past maxGroupKeys, unbind the least recently used key whose member
+    // holds nothing for it; busy keys stay, bounded by the queues
+    private trimKeys(topic: Topic, group: ConsumerGroup) {
+        if (group.keys.size <= this.opts.maxGroupKeys) return;
+        for (const [key, id] of group.keys) {
+            if (topic.subscribers.get(id)?.keyed.has(key)) continue;
+            group.keys.delete(key);
+            return;
+        }
+    }
+
+    private enqueue(topic: Topic, sub: Subscriber, ev: QueuedEvent) {
+        const key = ev.stored.message.key;
+        if (sub.group && key !== undefined)
+            sub.keyed.set(key, (sub.keyed.get(key) ?? 0) + 1);
+        if (sub.queue.full) {
+            switch (sub.overflow) {
+                case "disconnect":
+                    this.drop(topic, sub, ev);
+                    this.disconnectSlow(topic, sub);
+                    return;
+                case "drop_newest":
+                    this.drop(topic, sub, ev);
+                    sub.missed++;
+                    return;
+                // drop_oldest, and reject_publish once past the high-water
+                // mark anyway (replay, group hand-over)
+            }
+        }
+        const dropped = sub.queue.pushDropOldest(ev);
+        if (dropped) {
+            this.drop(topic, sub, dropped);
+            sub.missed++;
+        }
+        if (sub.batchMs === undefined) return this.flush(sub, topic);
+        // let the events of a burst gather into one frame
+        sub.batchTimer ??= setTimeout(() => {
+            sub.batchTimer = undefined;
+            this.flush(sub, topic);
+        }, sub.batchMs);
+    }
+
+    private disconnectSlow(topic: Topic, sub: Subscriber) {
+        topic.stats.slow_disconnects++;
+        this.sendError(
+            sub.conn,
+            "SLOW_CONSUMER",
+            `subscriber queue for ${topic.name} overflowed`
+        );
+        sub.conn.close();
+    }
+
+    // an event left a group member for good (sent, acked, dropped or
+    // expired); a key the member holds nothing more for may be trimmed
+    private settle(sub: Subscriber, ev: QueuedEvent) {
+        const key = ev.stored.message.key;
+        if (!sub.group || key === undefined) return;
+        const held = (sub.keyed.get(key) ?? 0) - 1;
+        if (held > 0) sub.keyed.set(key, held);
+        else sub.keyed.delete(key);
+    }
+
+    private drop(topic: Topic, sub: Subscriber, ev: QueuedEvent) {
+        this.settle(sub, ev);
+        topic.stats.dropped++;
+        if (sub.group) {
+            const group = topic.groups.get(sub.group);
+            if (group) group.stats.dropped++;
         }
+        // a replayed event is still in the replay buffer: nothing is lost
+        if (ev.replay) return;
+        this.deadLetter(topic, sub, "dropped", ev.stored.message, ev.stored);
+    }
+
+    private expire(topic: Topic, sub: Subscriber, ev: QueuedEvent) {
+        this.settle(sub, ev);
+        topic.stats.expired++;
+        this.deadLetter(topic, sub, "expired", ev.stored.message, ev.stored);
+    }
+
+    // republish a message that did not get through to `sub` on the topic's
+    // dead-letter topic, if it has one. Dead letters are not dead-lettered
+    // again, so a cycle of dead-letter topics cannot loop.
+    private deadLetter(
+        topic: Topic,
+        sub: Subscriber,
+        reason: DeadLetterReason,
+        message: PublishPayload,
+        stored?: StoredMessage
+    ) {
+        const target = topic.config.dead_letter;
+        if (!target || stored?.dead_letter) return;
+        const meta: DeadLetter = {
+            topic: topic.name,
+            reason,
+            client_id: sub.clientId,
+            ts: new Date().toISOString(),
+        };
+        if (stored) meta.offset = stored.offset;
+        const result = this.publish(target, message, { deadLetter: meta });
+        if (result.ok) topic.stats.dead_lettered++;
     }
 
     private flush(sub: Subscriber, topic: Topic) {
-        const batch = sub.queue.drain(100);
-        for (const ev of batch) {
-            const out: EventMessage = {
-                type: "event",
-                topic: ev.topic,
-                message: ev.message,
+        // hold events in the bounded queue while the connection is not
+        // keeping up, so overflow policies apply instead of unbounded
+        // buffering
+        let room = this.opts.socketBufferLimit - sub.conn.backlog();
+        if (sub.delivery === "at_least_once")
+            room = Math.min(room, this.opts.maxInFlight - sub.inFlight.size);
+        const now = Date.now();
+        const batch = sub.queue.drain(Math.min(100, room)).filter((ev) => {
+            if (!expired(ev.stored, now)) return true;
+            this.expire(topic, sub, ev);
+            return false;
+        });
+        // tell the subscriber about the gap right before the next events
+        if (batch.length > 0 && sub.missed > 0) {
+            const info: InfoMessage = {
+                type: "info",
+                topic: topic.name,
+                msg: "messages_dropped",
+                count: sub.missed,
                 ts: new Date().toISOString(),
             };
-            sub.socket.emit("message", out);
+            sub.conn.send(info);
+            sub.missed = 0;
+        }
+        const events: EventMessage[] = [];
+        for (const ev of batch) {
+            if (sub.delivery === "at_least_once") {
+                const entry: InFlightEvent = { event: ev, attempts: 0 };
+                const deliveryId = randomUUID();
+                sub.inFlight.set(deliveryId, entry);
+                events.push(this.transmit(sub, topic, deliveryId, entry));
+            } else {
+                events.push(this.toEvent(sub, ev));
+                this.settle(sub, ev);
+            }
             topic.stats.delivered++;
+            if (!ev.replay) topic.latency.observe((now - ev.stored.ts) / 1000);
+            if (sub.group) {
+                const group = topic.groups.get(sub.group);
+                if (group) group.stats.delivered++;
+            }
         }
+        if (sub.batchMs === undefined) {
+            for (const out of events) sub.conn.send(out);
+        } else if (events.length > 0) {
+            const frame: EventsMessage = {
+                type: "events",
+                events,
+                ts: new Date().toISOString(),
+            };
+            sub.conn.send(frame);
+        }
+        if (sub.queue.length > 0) {
+            let stalled = this.stalled.get(sub.conn.id);
+            if (!stalled) {
+                stalled = new Map();
+                this.stalled.set(sub.conn.id, stalled);
+            }
+            stalled.set(sub, topic);
+        }
+    }
+
+    private toEvent(sub: Subscriber, ev: QueuedEvent): EventMessage {
+        const out: EventMessage = {
+            type: "event",
+            topic: ev.topic,
+            message: ev.stored.message,
+            offset: ev.stored.offset,
+            ts: new Date().toISOString(),
+        };
+        if (sub.pattern) out.pattern = sub.pattern;
+        if (ev.stored.dead_letter) out.dead_letter = ev.stored.dead_letter;
+        if (ev.stored.request) out.request = ev.stored.request;
+        return out;
     }
+
+    // the next attempt of an in-flight event, to be sent by the caller;
+    // arms its ack timeout
+    private transmit(
+        sub: Subscriber,
+        topic: Topic,
+        deliveryId: string,
+        entry: InFlightEvent
+    ): EventMessage {
+        entry.attempts++;
+        const out = this.toEvent(sub, entry.event);
+        out.delivery_id = deliveryId;
+        out.attempt = entry.attempts;
+        entry.timer = setTimeout(
+            () => this.onAckTimeout(sub, topic, deliveryId),
+            this.opts.ackTimeoutMs
+        );
+        return out;
+    }
+
+    private onAckTimeout(sub: Subscriber, topic: Topic, deliveryId: string) {
+        const entry = sub.inFlight.get(deliveryId);
+        if (!entry) return;
+        if (expired(entry.event.stored, Date.now())) {
+            sub.inFlight.delete(deliveryId);
+            this.expire(topic, sub, entry.event);
+            this.flush(sub, topic);
+            return;
+        }
+        if (entry.attempts >= this.opts.maxDeliveryAttempts) {
+            sub.inFlight.delete(deliveryId);
+            this.drop(topic, sub, entry.event);
+            this.flush(sub, topic);
+            return;
+        }
+        topic.stats.redelivered++;
+        sub.conn.send(this.transmit(sub, topic, deliveryId, entry));
+    }
+}
+
+function expired(stored: StoredMessage, now: number): boolean {
+    return stored.expires_at !== undefined && stored.expires_at <= now;
 }
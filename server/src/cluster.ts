@@ -0,0 +1,269 @@
+import { createHash, timingSafeEqual } from "crypto";
+import net from "net";
+import type {
+    DeadLetter,
+    NodeStats,
+    PublishPayload,
+    RequestInfo,
+    TopicConfigPatch,
+} from "./types.js";
+
+// What brokers tell each other. Publishes are re-published by every node,
+// so offsets are assigned per node; topic changes are applied as if made
+// locally.
+export type ClusterMessage =
+    | {
+          kind: "create";
+          topic: string;
+          config: TopicConfigPatch;
+          schemas: unknown[]; // version 1 first
+      }
+    | { kind: "delete"; topic: string }
+    | { kind: "configure"; topic: string; config: TopicConfigPatch }
+    | { kind: "schema"; topic: string; schema: unknown }
+    | PublishReplica
+    | {
+          // for a request made on another node; only that node knows the
+          // inbox
+          kind: "reply";
+          reply_to: string;
+          correlation_id: string;
+          message: PublishPayload;
+      }
+    | { kind: "stats"; stats: NodeStats };
+
+export interface PublishReplica {
+    kind: "publish";
+    topic: string;
+    message: PublishPayload;
+    ttl_ms?: number;
+    dead_letter?: DeadLetter;
+    redrive?: true;
+    request?: RequestInfo;
+}
+
+export interface ClusterHandler {
+    message(msg: ClusterMessage, from: string): void;
+    // sent first on every new link, so a node that (re)joins learns the
+    // topics it missed
+    snapshot(): ClusterMessage[];
+}
+
+export interface ClusterMember {
+    node: string;
+    up: boolean; // heard from within the failure timeout
+    last_seen: string;
+}
+
+export interface ClusterPeer {
+    address: string; // as configured, host:port
+    connected: boolean;
+}
+
+// Transport between broker nodes. Delivery is best effort but in order per
+// sending node; a node that is down misses what is broadcast meanwhile.
+export interface ClusterBus {
+    readonly nodeId: string;
+    start(handler: ClusterHandler): void;
+    broadcast(msg: ClusterMessage): void;
+    members(): ClusterMember[]; // other nodes, not this one
+    peers(): ClusterPeer[];
+    stop(): void;
+}
+
+// Default bus: a single node, nothing to talk to.
+export class StandaloneBus implements ClusterBus {
+    constructor(readonly nodeId: string) {}
+    start(_handler: ClusterHandler) {}
+    broadcast(_msg: ClusterMessage) {}
+    members(): ClusterMember[] {
+        return [];
+    }
+    peers(): ClusterPeer[] {
+        return [];
+    }
+    stop() {}
+}
+
+export interface TcpBusOptions {
+    nodeId: string;
+    port: number; // listens here for the other nodes
+    host?: string | undefined; // default 127.0.0.1
+    secret: string; // shared by every node, sent in hello
+    peers: string[]; // host:port of the other nodes
+    heartbeatMs: number;
+    failureTimeoutMs: number; // silent this long: member is down
+    reconnectMs: number;
+}
+
+// one JSON object per line
+type Frame =
+    | { type: "hello"; node: string; secret: string }
+    | { type: "ping" }
+    | { type: "msg"; msg: ClusterMessage };
+
+// longest line a peer may send; before its hello, far less
+const MAX_LINE = 16 * 1024 * 1024;
+const MAX_HELLO_LINE = 4096;
+
+interface Link {
+    address: string;
+    socket?: net.Socket | undefined;
+    connected: boolean;
+    timer?: NodeJS.Timeout; // pending reconnect
+}
+
+// Full mesh over TCP, every node dialling every configured peer. Each
+// connection carries traffic one way only, from the node that dialled it,
+// which keeps a pair of nodes from having to agree on a single link.
+export class TcpBus implements ClusterBus {
+    private server?: net.Server;
+    private links: Link[];
+    private seen = new Map<string, number>(); // key: node id, epoch ms
+    private handler?: ClusterHandler;
+    private heartbeat?: NodeJS.Timeout;
+    private stopped = false;
+
+    constructor(private opts: TcpBusOptions) {
+        this.links = opts.peers.map((address) => ({
+            address,
+            connected: false,
+        }));
+    }
+
+    get nodeId(): string {
+        return this.opts.nodeId;
+    }
+
+    start(handler: ClusterHandler) {
+        this.handler = handler;
+        this.server = net.createServer((socket) => this.accept(socket));
+        this.server.listen(this.opts.port, this.opts.host ?? "127.0.0.1");
+        for (const link of this.links) this.dial(link);
+        this.heartbeat = setInterval(() => {
+            for (const link of this.links) this.write(link, { type: "ping" });
+        }, this.opts.heartbeatMs);
+        this.heartbeat.unref();
+    }
+
+    broadcast(msg: ClusterMessage) {
+        for (const link of this.links) this.write(link, { type: "msg", msg });
+    }
+
+    members(): ClusterMember[] {
+        const now = Date.now();
+        return Array.from(this.seen, ([node, at]) => ({
+            node,
+            up: now - at < this.opts.failureTimeoutMs,
+            last_seen: new Date(at).toISOString(),
+        }));
+    }
+
+    peers(): ClusterPeer[] {
+        return this.links.map((l) => ({
+            address: l.address,
+            connected: l.connected,
+        }));
+    }
+
+    stop() {
+        this.stopped = true;
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        for (const link of this.links) {
+            clearTimeout(link.timer);
+            link.socket?.destroy();
+        }
+        this.server?.close();
+    }
+
+    private dial(link: Link) {
+        const [host, port] = splitAddress(link.address);
+        const socket = net.connect(port, host);
+        link.socket = socket;
+        socket.setNoDelay(true);
+        socket.on("connect", () => {
+            link.connected = true;
+            this.write(link, {
+                type: "hello",
+                node: this.nodeId,
+                secret: this.opts.secret,
+            });
+            for (const msg of this.handler?.snapshot() ?? [])
+                this.write(link, { type: "msg", msg });
+        });
+        // inbound traffic is not expected on a dialled link
+        socket.on("data", () => {});
+        socket.on("error", () => {}); // followed by close
+        socket.on("close", () => {
+            link.connected = false;
+            link.socket = undefined;
+            if (this.stopped) return;
+            link.timer = setTimeout(
+                () => this.dial(link),
+                this.opts.reconnectMs
+            );
+        });
+    }
+
+    private accept(socket: net.Socket) {
+        let node: string | undefined;
+        let buffered = "";
+        socket.setEncoding("utf8");
+        socket.on("error", () => {});
+        socket.on("data", (chunk: string) => {
+            buffered += chunk;
+            let nl: number;
+            while ((nl = buffered.indexOf("\n")) >= 0) {
+                const line = buffered.slice(0, nl);
+                buffered = buffered.slice(nl + 1);
+                let frame: Frame | null;
+                try {
+                    frame = JSON.parse(line);
+                } catch {
+                    frame = null;
+                }
+                if (typeof frame !== "object" || frame === null) {
+                    socket.destroy(); // not a peer speaking our protocol
+                    return;
+                }
+                if (frame.type === "hello" && node === undefined) {
+                    if (!this.trusted(frame.secret)) {
+                        socket.destroy();
+                        return;
+                    }
+                    node = frame.node;
+                }
+                if (node === undefined) {
+                    socket.destroy();
+                    return;
+                }
+                this.seen.set(node, Date.now());
+                if (frame.type === "msg")
+                    this.handler?.message(frame.msg, node);
+            }
+            // what is left is an unfinished line
+            if (buffered.length > (node ? MAX_LINE : MAX_HELLO_LINE))
+                socket.destroy();
+        });
+    }
+
+    private trusted(secret: unknown): boolean {
+        if (typeof secret !== "string") return false;
+        return timingSafeEqual(digest(secret), digest(this.opts.secret));
+    }
+
+    private write(link: Link, frame: Frame) {
+        if (!link.connected || !link.socket) return;
+        link.socket.write(JSON.stringify(frame) + "\n");
+    }
+}
+
+function digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+function splitAddress(address: string): [string, number] {
+    const i = address.lastIndexOf(":");
+    if (i < 0) return ["127.0.0.1", parseInt(address, 10)];
+    return [address.slice(0, i), parseInt(address.slice(i + 1), 10)];
+}
@@ -0,0 +1,21 @@
+import type { PublishPayload, StoredMessage } from "./types.js";
+
+// Compacted topics keep the newest message per `message.key` instead of the
+// last N messages. A message whose payload is null is a tombstone: it is
+// delivered like any other, then deletes its key.
+
+export function isTombstone(message: PublishPayload): boolean {
+    return message.payload === null;
+}
+
+// the newest message per key, oldest first, minus deleted keys
+export function compact(messages: StoredMessage[]): StoredMessage[] {
+    const latest = new Map<string, StoredMessage>();
+    for (const stored of messages) {
+        const key = stored.message.key;
+        if (key === undefined) continue;
+        latest.delete(key); // re-insert as newest
+        if (!isTombstone(stored.message)) latest.set(key, stored);
+    }
+    return Array.from(latest.values());
+}
@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import type { Socket } from "socket.io";
+import { WebSocket } from "ws";
+import type { ServerMessage } from "./types.js";
+
+// A client connection as the broker sees it. Each transport adapts its own
+// connection type and reports drain/disconnect back to the broker.
+export interface Connection {
+    readonly id: string;
+    readonly transport: string; // metrics label
+    send(msg: ServerMessage): void;
+    close(): void;
+    // messages handed to the transport that it has not written out yet
+    backlog(): number;
+}
+
+export class SocketIoConnection implements Connection {
+    readonly transport = "socket.io";
+
+    constructor(private socket: Socket) {}
+
+    get id(): string {
+        return this.socket.id;
+    }
+
+    send(msg: ServerMessage) {
+        this.socket.emit("message", msg);
+    }
+
+    close() {
+        this.socket.disconnect(true);
+    }
+
+    // packets engine.io could not hand to the transport yet; it grows while
+    // the client reads slower than we write
+    backlog(): number {
+        const conn = this.socket.conn as unknown as { writeBuffer?: unknown[] };
+        return conn.writeBuffer?.length ?? 0;
+    }
+}
+
+// A plain RFC 6455 WebSocket carrying one JSON message per text frame.
+export class WebSocketConnection implements Connection {
+    readonly id = randomUUID();
+    readonly transport = "websocket";
+    private pending = 0; // frames not yet written to the socket
+
+    constructor(
+        private ws: WebSocket,
+        private onDrain: () => void
+    ) {}
+
+    send(msg: ServerMessage) {
+        if (this.ws.readyState !== WebSocket.OPEN) return;
+        this.pending++;
+        this.ws.send(JSON.stringify(msg), () => {
+            if (--this.pending === 0) this.onDrain();
+        });
+    }
+
+    close() {
+        this.ws.close();
+    }
+
+    backlog(): number {
+        return this.pending;
+    }
+}
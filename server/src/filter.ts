@@ -0,0 +1,196 @@
+import { isDeepStrictEqual } from "util";
+import { z } from "zod";
+import type { PublishPayload } from "./types.js";
+
+// Subscription filters, evaluated against a message before it is queued for
+// a subscriber. `field` is a dot path into the payload, `header` names one
+// of message.headers:
+//   { "field": "amount", "op": "gte", "value": 100 }
+//   { "field": "region", "op": "in", "value": ["eu", "us"] }
+//   { "field": "customer.vip", "op": "exists" }
+//   { "header": "tenant", "op": "eq", "value": "acme" }
+//   { "and": [...] }, { "or": [...] }, { "not": {...} }
+export type FilterOp =
+    | "eq"
+    | "ne"
+    | "gt"
+    | "gte"
+    | "lt"
+    | "lte"
+    | "in"
+    | "exists";
+
+export type Filter =
+    | {
+          // exactly one of field, header
+          field?: string | undefined;
+          header?: string | undefined;
+          op: FilterOp;
+          value?: unknown;
+      }
+    | { and: Filter[] }
+    | { or: Filter[] }
+    | { not: Filter };
+
+export type Matcher = (message: PublishPayload) => boolean;
+
+const MAX_DEPTH = 16;
+
+const conditionSchema = z
+    .strictObject({
+        field: z.string().min(1).max(200).optional(),
+        header: z.string().min(1).max(200).optional(),
+        op: z.enum(["eq", "ne", "gt", "gte", "lt", "lte", "in", "exists"]),
+        value: z.unknown(),
+    })
+    .superRefine((c, ctx) => {
+        if ((c.field === undefined) === (c.header === undefined))
+            ctx.addIssue({
+                code: "custom",
+                message: "a condition needs one of field, header",
+            });
+        const numeric = ["gt", "gte", "lt", "lte"].includes(c.op);
+        if (numeric && typeof c.value !== "number")
+            ctx.addIssue({
+                code: "custom",
+                path: ["value"],
+                message: `${c.op} expects a number`,
+            });
+        if (c.op === "in" && !Array.isArray(c.value))
+            ctx.addIssue({
+                code: "custom",
+                path: ["value"],
+                message: "in expects an array",
+            });
+        if (
+            c.op === "exists" &&
+            c.value !== undefined &&
+            typeof c.value !== "boolean"
+        )
+            ctx.addIssue({
+                code: "custom",
+                path: ["value"],
+                message: "exists expects a boolean or no value",
+            });
+    });
+
+class FilterError extends Error {
+    constructor(path: (string | number)[], message: string) {
+        super(`invalid filter at ${path.join(".")}: ${message}`);
+    }
+}
+
+export function compileFilter(
+    input: unknown
+): { ok: true; match: Matcher } | { ok: false; error: string } {
+    let filter: Filter;
+    try {
+        filter = parse(input, ["filter"], 0);
+    } catch (err) {
+        if (err instanceof FilterError)
+            return { ok: false, error: err.message };
+        throw err;
+    }
+    return { ok: true, match: compile(filter) };
+}
+
+// combinators are dispatched by key so errors point at the failing node
+// instead of listing every alternative of a union
+function parse(
+    input: unknown,
+    path: (string | number)[],
+    depth: number
+): Filter {
+    if (depth > MAX_DEPTH) throw new FilterError(path, "nested too deeply");
+    if (input && typeof input === "object" && !Array.isArray(input)) {
+        const obj = input as Record<string, unknown>;
+        const keys = Object.keys(obj);
+        const key = keys.length === 1 ? keys[0] : undefined;
+        if (key === "and" || key === "or") {
+            const parts = obj[key];
+            if (!Array.isArray(parts) || parts.length === 0)
+                throw new FilterError(
+                    [...path, key],
+                    "expected a non-empty array"
+                );
+            const children = parts.map((p, i) =>
+                parse(p, [...path, key, i], depth + 1)
+            );
+            return key === "and" ? { and: children } : { or: children };
+        }
+        if (key === "not")
+            return { not: parse(obj.not, [...path, key], depth + 1) };
+    }
+    const cond = conditionSchema.safeParse(input);
+    if (!cond.success) {
+        const issue = cond.error.issues[0];
+        throw new FilterError(
+            [...path, ...((issue?.path ?? []) as (string | number)[])],
+            issue?.message ?? "invalid condition"
+        );
+    }
+    return cond.data;
+}
+
+function compile(f: Filter): Matcher {
+    if ("and" in f) {
+        const parts = f.and.map(compile);
+        return (p) => parts.every((t) => t(p));
+    }
+    if ("or" in f) {
+        const parts = f.or.map(compile);
+        return (p) => parts.some((t) => t(p));
+    }
+    if ("not" in f) {
+        const inner = compile(f.not);
+        return (p) => !inner(p);
+    }
+    const [root, path]: [keyof PublishPayload, string[]] =
+        f.header !== undefined
+            ? ["headers", [f.header]]
+            : ["payload", (f.field ?? "").split(".")];
+    const get = (m: PublishPayload) => lookup(m[root], path);
+    switch (f.op) {
+        case "eq":
+            return (p) => isDeepStrictEqual(get(p), f.value);
+        case "ne":
+            return (p) => !isDeepStrictEqual(get(p), f.value);
+        case "gt":
+        case "gte":
+        case "lt":
+        case "lte": {
+            const bound = f.value as number;
+            const test = {
+                gt: (v: number) => v > bound,
+                gte: (v: number) => v >= bound,
+                lt: (v: number) => v < bound,
+                lte: (v: number) => v <= bound,
+            }[f.op];
+            return (p) => {
+                const v = get(p);
+                return typeof v === "number" && test(v);
+            };
+        }
+        case "in": {
+            const options = f.value as unknown[];
+            return (p) => {
+                const v = get(p);
+                return options.some((c) => isDeepStrictEqual(v, c));
+            };
+        }
+        case "exists": {
+            const want = (f.value as boolean | undefined) ?? true;
+            return (p) => (get(p) !== undefined) === want;
+        }
+    }
+}
+
+function lookup(value: unknown, path: string[]): unknown {
+    let cur = value;
+    for (const key of path) {
+        if (cur === null || typeof cur !== "object") return undefined;
+        if (!Object.prototype.hasOwnProperty.call(cur, key)) return undefined;
+        cur = (cur as Record<string, unknown>)[key];
+    }
+    return cur;
+}
@@ -1,158 +1,662 @@
-import express from "express";
+import express, {
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
 import http from "http";
+import os from "os";
 import { Server as SocketIOServer } from "socket.io";
+import { WebSocketServer, type WebSocket } from "ws";
 import cors from "cors";
 import pino from "pino";
 import { z } from "zod";
 import { InMemoryBroker } from "./broker.js";
-import type { ClientMessage } from "./types.js";
+import { StandaloneBus, TcpBus, type ClusterBus } from "./cluster.js";
+import {
+    Authenticator,
+    can,
+    isAdmin,
+    loadAuthConfig,
+    meteredClient,
+    tokenFrom,
+    type Principal,
+    type Right,
+} from "./auth.js";
+import { SocketIoConnection, WebSocketConnection } from "./connection.js";
+import { renderMetrics } from "./metrics.js";
+import { loadRateLimits } from "./ratelimit.js";
+import { ProtocolHandler } from "./protocol.js";
+import {
+    MAX_FRAME_BYTES,
+    publishPayloadSchema,
+    topicConfigSchema,
+    topicNameSchema,
+} from "./schemas.js";
+import { SseConnection } from "./sse.js";
+import { loadStorage } from "./storage.js";
+import type { ErrorCode, TopicConfigPatch } from "./types.js";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 4000;
 const app = express();
 const server = http.createServer(app);
-const io = new SocketIOServer(server, { path: "/ws", cors: { origin: "*" } });
+const io = new SocketIOServer(server, {
+    path: "/ws",
+    cors: { origin: "*" },
+    maxHttpBufferSize: MAX_FRAME_BYTES,
+});
 const logger = pino({ transport: { target: "pino-pretty" } });
 
+const MAX_PAYLOAD_BYTES = process.env.MAX_PAYLOAD_BYTES
+    ? parseInt(process.env.MAX_PAYLOAD_BYTES, 10)
+    : 256 * 1024;
+
+// bodies fit the largest payload a topic may allow, plus its id, key and
+// headers
 app.use(cors());
-app.use(express.json());
+app.use(
+    express.json({
+        limit: Math.max(MAX_FRAME_BYTES, MAX_PAYLOAD_BYTES) + 512 * 1024,
+    })
+);
+
+// Storage backend: STORAGE=file persists topics and messages under DATA_DIR
+const RING_BUFFER_SIZE = 100;
+const storage = loadStorage(process.env, RING_BUFFER_SIZE);
+
+// Cluster: CLUSTER_PORT enables the TCP bus; CLUSTER_PEERS lists the other
+// nodes as host:port and CLUSTER_SECRET is shared by all of them
+const NODE_ID = process.env.CLUSTER_NODE_ID || `${os.hostname()}:${PORT}`;
+if (process.env.CLUSTER_PORT && !process.env.CLUSTER_SECRET)
+    throw new Error("CLUSTER_SECRET is required with CLUSTER_PORT");
+const bus: ClusterBus = process.env.CLUSTER_PORT
+    ? new TcpBus({
+          nodeId: NODE_ID,
+          port: parseInt(process.env.CLUSTER_PORT, 10),
+          host: process.env.CLUSTER_HOST,
+          secret: process.env.CLUSTER_SECRET ?? "",
+          peers: (process.env.CLUSTER_PEERS ?? "")
+              .split(",")
+              .map((p) => p.trim())
+              .filter(Boolean),
+          heartbeatMs: 1000,
+          failureTimeoutMs: 5000,
+          reconnectMs: 1000,
+      })
+    : new StandaloneBus(NODE_ID);
 
 // Broker and options
-const broker = new InMemoryBroker(io, {
-    ringBufferSize: 100,
-    subscriberQueueSize: 512,
-    heartbeatIntervalMs: 30000,
-});
+const broker = new InMemoryBroker(
+    {
+        ringBufferSize: RING_BUFFER_SIZE,
+        subscriberQueueSize: 512,
+        heartbeatIntervalMs: 30000,
+        ackTimeoutMs: 10000,
+        maxDeliveryAttempts: 5,
+        maxInFlight: 100,
+        overflowPolicy: "drop_oldest",
+        highWaterMark: 0.8,
+        socketBufferLimit: 1000,
+        maxPayloadBytes: MAX_PAYLOAD_BYTES,
+        dedupWindowSize: 10000,
+        dedupWindowMs: 5 * 60 * 1000,
+        nodeStatsIntervalMs: 5000,
+        rateLimits: loadRateLimits(process.env.RATE_LIMITS),
+        sessionGraceMs: process.env.SESSION_GRACE_MS
+            ? parseInt(process.env.SESSION_GRACE_MS, 10)
+            : 60000,
+        requestTimeoutMs: 30000,
+        maxGroupKeys: 10000,
+    },
+    storage,
+    bus
+);
 broker.start();
 
-// REST endpoints
-const topicNameSchema = z
-    .string()
-    .min(1)
-    .max(200)
-    .regex(/^[a-zA-Z0-9._-]+$/);
+// validates client messages for every transport; MAX_MALFORMED invalid
+// messages close the connection
+const protocol = new ProtocolHandler(broker, {
+    maxMalformed: process.env.MAX_MALFORMED
+        ? parseInt(process.env.MAX_MALFORMED, 10)
+        : 10,
+});
+
+// topics past METRICS_MAX_TOPICS are exported under one shared label
+const METRICS_MAX_TOPICS = process.env.METRICS_MAX_TOPICS
+    ? parseInt(process.env.METRICS_MAX_TOPICS, 10)
+    : 100;
+
+// Auth: enabled by AUTH_CONFIG (JSON file: api_keys with ACLs, jwt_secret)
+// and/or AUTH_JWT_SECRET; without either everything is allowed
+const auth = new Authenticator(
+    loadAuthConfig(process.env.AUTH_CONFIG, process.env.AUTH_JWT_SECRET)
+);
+logger.info({ enabled: auth.enabled }, "auth");
 
-app.post("/topics", (req, res) => {
+// REST credentials: "Authorization: Bearer <api key | jwt>" or X-API-Key
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+    authorize(
+        tokenFrom(req.header("authorization")) ?? req.header("x-api-key"),
+        res,
+        next
+    );
+}
+
+// EventSource cannot set headers, so like /raw the stream also takes
+// ?token=
+function requireStreamAuth(req: Request, res: Response, next: NextFunction) {
+    const token = req.query.token;
+    if (typeof token === "string") return authorize(token, res, next);
+    requireAuth(req, res, next);
+}
+
+function authorize(
+    token: string | undefined,
+    res: Response,
+    next: NextFunction
+) {
+    const principal = auth.authenticate(token);
+    if (!principal)
+        return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "missing or invalid credentials",
+        });
+    res.locals.principal = principal;
+    next();
+}
+
+// listings show only the topics a principal may subscribe to
+function readable(principal: Principal) {
+    return (topic: string) => can(principal, "subscribe", topic);
+}
+
+function forbidden(res: Response, right: Right, topic: string) {
+    return res.status(403).json({
+        error: "UNAUTHORIZED",
+        message: `missing ${right} right on ${topic}`,
+    });
+}
+
+// REST status for each broker error code
+const httpStatus: Record<ErrorCode, number> = {
+    BAD_REQUEST: 400,
+    TOPIC_NOT_FOUND: 404,
+    SLOW_CONSUMER: 503,
+    UNAUTHORIZED: 403,
+    RATE_LIMITED: 429,
+    TIMEOUT: 504,
+    INTERNAL: 500,
+};
+
+// the optional `config` member of a topic request body
+function parseConfig(
+    input: unknown
+): { ok: true; config: TopicConfigPatch } | { ok: false; error: string } {
+    const config = topicConfigSchema.safeParse(input ?? {});
+    if (config.success) return { ok: true, config: config.data };
+    const issue = config.error.issues[0];
+    const at = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    return { ok: false, error: `invalid config${at}: ${issue?.message}` };
+}
+
+// REST endpoints
+app.post("/topics", requireAuth, (req, res) => {
     const name = topicNameSchema.safeParse(req.body?.name);
     if (!name.success)
         return res
             .status(400)
             .json({ error: "BAD_REQUEST", message: "invalid topic name" });
-    const result = broker.createTopic(name.data);
+    if (!can(res.locals.principal, "admin", name.data))
+        return forbidden(res, "admin", name.data);
+    const config = parseConfig(req.body?.config);
+    if (!config.ok)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: config.error });
+    const result = broker.createTopic(name.data, {
+        schema: req.body?.schema,
+        config: config.config,
+    });
+    if (!result.ok && "error" in result)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: result.error });
     if (!result.ok)
         return res.status(409).json({ status: "conflict", topic: name.data });
     res.status(201).json({ status: "created", topic: name.data });
 });
 
-app.delete("/topics/:name", (req, res) => {
+app.delete("/topics/:name", requireAuth, (req, res) => {
     const name = topicNameSchema.safeParse(req.params.name);
     if (!name.success)
         return res
             .status(400)
             .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "admin", name.data))
+        return forbidden(res, "admin", name.data);
     const result = broker.deleteTopic(name.data);
     if (!result.ok)
         return res.status(404).json({ status: "not_found", topic: name.data });
     res.json({ status: "deleted", topic: name.data });
 });
 
-app.get("/topics", (_req, res) => {
-    res.json({ topics: broker.getTopics() });
+app.get("/topics/:name", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "subscribe", name.data))
+        return forbidden(res, "subscribe", name.data);
+    const topic = broker.describeTopic(name.data);
+    if (!topic)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json(topic);
 });
 
-app.get("/health", (_req, res) => {
-    res.json(broker.getHealth());
+// resize the replay buffer and subscriber queues of a live topic
+app.patch("/topics/:name", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "admin", name.data))
+        return forbidden(res, "admin", name.data);
+    const config = parseConfig(req.body?.config);
+    if (!config.ok)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: config.error });
+    const result = broker.configureTopic(name.data, config.config);
+    if (!result.ok && "error" in result)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: result.error });
+    if (!result.ok)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json({ topic: name.data, config: result.config });
 });
 
-app.get("/stats", (_req, res) => {
-    res.json(broker.getStats());
+const publishBatchSchema = z.array(publishPayloadSchema).min(1).max(1000);
+const historyQuerySchema = z.object({
+    last_n: z.coerce.number().int().positive().optional(),
 });
 
-io.on("connection", (socket) => {
-    logger.info({ id: socket.id }, "socket connected");
-
-    socket.on("message", (msg: ClientMessage) => {
-        const now = new Date().toISOString();
-        try {
-            switch (msg.type) {
-                case "subscribe": {
-                    broker.subscribe(
-                        socket,
-                        msg.topic,
-                        msg.client_id,
-                        msg.last_n,
-                        msg.request_id
-                    );
-                    break;
-                }
-                case "unsubscribe": {
-                    broker.unsubscribe(
-                        socket,
-                        msg.topic,
-                        msg.client_id,
-                        msg.request_id
-                    );
-                    break;
-                }
-                case "publish": {
-                    const result = broker.publish(
-                        msg.topic,
-                        msg.message,
-                        msg.request_id
-                    );
-                    if (!result.ok) {
-                        socket.emit("message", {
-                            type: "error",
-                            request_id: msg.request_id,
-                            error: {
-                                code: "TOPIC_NOT_FOUND",
-                                message: `topic ${msg.topic} not found`,
-                            },
-                            ts: now,
-                        });
-                    } else {
-                        socket.emit("message", {
-                            type: "ack",
-                            request_id: msg.request_id,
-                            topic: msg.topic,
-                            status: "ok",
-                            ts: result.ts,
-                        });
-                    }
-                    break;
-                }
-                case "ping": {
-                    socket.emit("message", {
-                        type: "pong",
-                        request_id: msg.request_id,
-                        ts: now,
-                    });
-                    break;
-                }
-                default: {
-                    socket.emit("message", {
-                        type: "error",
-                        request_id: (msg as any).request_id,
-                        error: { code: "BAD_REQUEST", message: "unknown type" },
-                        ts: now,
-                    });
-                }
-            }
-        } catch (err) {
-            socket.emit("message", {
-                type: "error",
-                request_id: (msg as any).request_id,
-                error: { code: "INTERNAL", message: "internal error" },
-                ts: now,
+// for producers that cannot hold a socket: a single PublishPayload or an
+// array of them, published in order; an array stops at the first failure
+app.post("/topics/:name/messages", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    const principal: Principal = res.locals.principal;
+    if (!can(principal, "publish", name.data))
+        return forbidden(res, "publish", name.data);
+    const batch = Array.isArray(req.body);
+    const body = (
+        batch ? publishBatchSchema : publishPayloadSchema
+    ).safeParse(req.body);
+    if (!body.success) {
+        const issue = body.error.issues[0];
+        const at = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+        return res.status(400).json({
+            error: "BAD_REQUEST",
+            message: `invalid message${at}: ${issue?.message}`,
+        });
+    }
+    const messages = Array.isArray(body.data) ? body.data : [body.data];
+    const clientId = meteredClient(principal, req.header("x-client-id"));
+    const acks = [];
+    for (const message of messages) {
+        const result = broker.publish(name.data, message, { clientId });
+        if (!result.ok) {
+            if (result.retryAfterMs !== undefined)
+                res.set(
+                    "Retry-After",
+                    String(Math.ceil(result.retryAfterMs / 1000))
+                );
+            return res.status(httpStatus[result.code]).json({
+                error: result.code,
+                message: result.message,
+                ...(result.retryAfterMs !== undefined && {
+                    retry_after_ms: result.retryAfterMs,
+                }),
+                ...(batch && { acks }),
             });
         }
+        acks.push({
+            topic: name.data,
+            status: "ok",
+            offset: result.offset,
+            ...(result.duplicate && { duplicate: true }),
+            ts: result.ts,
+        });
+    }
+    res.status(201).json(batch ? { acks } : acks[0]);
+});
+
+app.get("/topics/:name/messages", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "subscribe", name.data))
+        return forbidden(res, "subscribe", name.data);
+    const query = historyQuerySchema.safeParse(req.query);
+    if (!query.success)
+        return res.status(400).json({
+            error: "BAD_REQUEST",
+            message: "last_n must be a positive integer",
+        });
+    const messages = broker.getHistory(name.data, query.data.last_n);
+    if (!messages)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json({ topic: name.data, messages });
+});
+
+// payload schema versions; a new one must be backward compatible
+app.post("/topics/:name/schemas", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "admin", name.data))
+        return forbidden(res, "admin", name.data);
+    if (req.body?.schema === undefined)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "schema is required" });
+    const result = broker.registerSchema(name.data, req.body.schema);
+    if (!result.ok && "error" in result)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: result.error });
+    if (!result.ok)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.status(201).json({ topic: name.data, version: result.version });
+});
+
+app.get("/topics/:name/schemas", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "subscribe", name.data))
+        return forbidden(res, "subscribe", name.data);
+    const versions = broker.getSchemas(name.data);
+    if (!versions)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json({ topic: name.data, versions });
+});
+
+const redriveSchema = z.strictObject({
+    offsets: z.array(z.number().int().nonnegative()).min(1).optional(),
+});
+
+// publish dead letters again on their source topics; needs admin on the
+// dead-letter topic and publish on each source
+app.post("/topics/:name/redrive", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    const principal: Principal = res.locals.principal;
+    if (!can(principal, "admin", name.data))
+        return forbidden(res, "admin", name.data);
+    const body = redriveSchema.safeParse(req.body ?? {});
+    if (!body.success)
+        return res.status(400).json({
+            error: "BAD_REQUEST",
+            message: "offsets must be a non-empty array of offsets",
+        });
+    const result = broker.redrive(name.data, body.data.offsets, (topic) =>
+        can(principal, "publish", topic)
+    );
+    if (!result.ok)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json({ topic: name.data, results: result.results });
+});
+
+// delayed publishes (publish with deliver_at/delay_ms) not yet due
+app.get("/topics/:name/scheduled", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "subscribe", name.data))
+        return forbidden(res, "subscribe", name.data);
+    const scheduled = broker.listScheduled(name.data);
+    if (!scheduled)
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+    res.json({ topic: name.data, scheduled });
+});
+
+app.delete("/topics/:name/scheduled/:id", requireAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "publish", name.data))
+        return forbidden(res, "publish", name.data);
+    const id = req.params.id ?? "";
+    const result = broker.cancelScheduled(name.data, id);
+    if (!result.ok) return res.status(404).json({ status: "not_found", id });
+    res.json({ status: "cancelled", id });
+});
+
+// Server-Sent Events for clients without socket.io. Event ids are offsets,
+// so an EventSource reconnecting with Last-Event-ID resumes after the last
+// event it saw; otherwise `last_n` replays like subscribe does.
+const streamQuerySchema = z.object({
+    last_n: z.coerce.number().int().nonnegative().optional(),
+    client_id: z.string().min(1).max(200).optional(),
+});
+const lastEventIdSchema = z.coerce.number().int().nonnegative();
+
+app.get("/topics/:name/stream", requireStreamAuth, (req, res) => {
+    const name = topicNameSchema.safeParse(req.params.name);
+    if (!name.success)
+        return res
+            .status(400)
+            .json({ error: "BAD_REQUEST", message: "invalid topic name" });
+    if (!can(res.locals.principal, "subscribe", name.data))
+        return forbidden(res, "subscribe", name.data);
+    const query = streamQuerySchema.safeParse(req.query);
+    const header = req.header("last-event-id");
+    const lastEventId = header && lastEventIdSchema.safeParse(header);
+    if (!query.success || (lastEventId && !lastEventId.success))
+        return res.status(400).json({
+            error: "BAD_REQUEST",
+            message: "last_n and Last-Event-ID must be non-negative integers",
+        });
+    // checked up front: a 404 stops EventSource from reconnecting
+    if (!broker.hasTopic(name.data))
+        return res.status(404).json({
+            error: "TOPIC_NOT_FOUND",
+            message: `topic ${name.data} not found`,
+        });
+
+    res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
     });
+    const conn = new SseConnection(res);
+    broker.handleConnect(conn);
+    res.on("drain", () => broker.handleDrain(conn));
+    res.on("close", () => broker.handleDisconnect(conn));
+    broker.subscribe(
+        conn,
+        name.data,
+        query.data.client_id ?? conn.id,
+        lastEventId
+            ? { fromOffset: lastEventId.data + 1 }
+            : { lastN: query.data.last_n },
+        undefined
+    );
+});
+
+app.get("/topics", requireAuth, (_req, res) => {
+    res.json({ topics: broker.getTopics(readable(res.locals.principal)) });
+});
+
+app.get("/health", (_req, res) => {
+    res.json(broker.getHealth());
+});
+
+app.get("/stats", requireAuth, (_req, res) => {
+    res.json(broker.getStats(readable(res.locals.principal)));
+});
+
+// publishes and bytes per client today, against their limits. Other
+// clients' usage is for admins only; anyone may look up their own.
+app.get("/usage", requireAuth, (_req, res) => {
+    if (!isAdmin(res.locals.principal)) return forbidden(res, "admin", "*");
+    res.json({ clients: broker.listUsage() });
+});
+
+app.get("/usage/:client_id", requireAuth, (req, res) => {
+    const principal: Principal = res.locals.principal;
+    const clientId = req.params.client_id ?? "";
+    if (clientId !== principal.id && !isAdmin(principal))
+        return forbidden(res, "admin", "*");
+    res.json(broker.getUsage(clientId));
+});
+
+// Prometheus scrape target
+app.get("/metrics", requireAuth, (_req, res) => {
+    res.type("text/plain; version=0.0.4; charset=utf-8").send(
+        renderMetrics(
+            broker.getMetrics(readable(res.locals.principal)),
+            METRICS_MAX_TOPICS
+        )
+    );
+});
+
+// socket credentials: handshake auth { token } or an Authorization header
+io.use((socket, next) => {
+    const principal = auth.authenticate(
+        socket.handshake.auth?.token ??
+            tokenFrom(socket.handshake.headers.authorization)
+    );
+    if (!principal) return next(new Error("UNAUTHORIZED"));
+    socket.data.principal = principal;
+    next();
+});
+
+io.on("connection", (socket) => {
+    const principal: Principal = socket.data.principal;
+    logger.info({ id: socket.id, principal: principal.id }, "socket connected");
+    const conn = new SocketIoConnection(socket);
+    broker.handleConnect(conn);
+
+    socket.on("message", (msg: unknown) =>
+        protocol.handle(conn, principal, msg)
+    );
+
+    socket.conn.on("drain", () => broker.handleDrain(conn));
 
     socket.on("disconnect", (reason) => {
-        broker.handleSocketDisconnect(socket);
+        broker.handleDisconnect(conn);
         logger.info({ id: socket.id, reason }, "socket disconnected");
     });
 });
 
+// Plain RFC 6455 WebSocket on /raw for clients without the socket.io
+// library: the same JSON messages, one per text frame. Browsers cannot set
+// headers here, so credentials may also come as ?token=.
+// frames are capped like socket.io's maxHttpBufferSize
+const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_FRAME_BYTES,
+});
+
+server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/raw") return; // socket.io upgrades its own path
+    const principal = auth.authenticate(
+        url.searchParams.get("token") ?? tokenFrom(req.headers.authorization)
+    );
+    if (!principal) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) =>
+        handleRawConnection(ws, principal)
+    );
+});
+
+function handleRawConnection(ws: WebSocket, principal: Principal) {
+    const conn = new WebSocketConnection(ws, () => broker.handleDrain(conn));
+    broker.handleConnect(conn);
+    logger.info(
+        { id: conn.id, principal: principal.id },
+        "websocket connected"
+    );
+
+    ws.on("message", (data) =>
+        protocol.handleFrame(conn, principal, String(data))
+    );
+
+    ws.on("close", (code) => {
+        broker.handleDisconnect(conn);
+        logger.info({ id: conn.id, code }, "websocket disconnected");
+    });
+}
+
+// body-parser failures (malformed JSON, oversized body) answer like the
+// routes do instead of with express's HTML page
+app.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    const status =
+        typeof err === "object" && err !== null && "status" in err
+            ? Number(err.status)
+            : 500;
+    if (status >= 500 || !(err instanceof Error)) return next(err);
+    res.status(status).json({ error: "BAD_REQUEST", message: err.message });
+});
+
 server.listen(PORT, () => {
-    logger.info(`server listening on :${PORT}`);
+    logger.info(
+        { topics: broker.getTopics().length },
+        `server listening on :${PORT}`
+    );
 });
+
+// flush storage before exiting so interval-fsynced writes are not lost
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+        logger.info({ signal }, "shutting down");
+        broker.stop();
+        io.close();
+        for (const ws of wss.clients) ws.close(1001, "server shutting down");
+        server.close(() => process.exit(0));
+    });
+}
@@ -0,0 +1,175 @@
+import { Ajv } from "ajv";
+import { isDeepStrictEqual } from "util";
+
+// Per-topic payload schemas (JSON Schema draft-07, validated by Ajv). A
+// topic has numbered versions; publishes are checked against the latest,
+// and a new version must be backward compatible: every payload the
+// previous version accepted is still valid.
+
+// returns a description of the first violation, or undefined if valid
+export type PayloadValidator = (payload: unknown) => string | undefined;
+
+// unknown keywords and formats are errors (a typo would silently accept
+// anything); type/required/tuple strictness would reject valid schemas
+const ajv = new Ajv({
+    strictSchema: true,
+    strictTypes: false,
+    strictRequired: false,
+    strictTuples: false,
+    addUsedSchema: false,
+});
+
+export function compileSchema(
+    schema: unknown
+): { ok: true; validate: PayloadValidator } | { ok: false; error: string } {
+    if (typeof schema !== "boolean" && !isObject(schema))
+        return { ok: false, error: "schema must be an object or boolean" };
+    let check;
+    try {
+        check = ajv.compile(schema);
+    } catch (err) {
+        const message = (err as Error).message;
+        return { ok: false, error: `invalid schema: ${message}` };
+    }
+    return {
+        ok: true,
+        validate: (payload) => {
+            if (check(payload)) return undefined;
+            const error = check.errors?.[0];
+            const path = (error?.instancePath ?? "").split("/").join(".");
+            return `at payload${path}: ${error?.message ?? "invalid"}`;
+        },
+    };
+}
+
+// keywords that do not change what validates
+const ANNOTATIONS = new Set([
+    "$schema",
+    "$id",
+    "$comment",
+    "title",
+    "description",
+    "default",
+    "examples",
+    "deprecated",
+    "readOnly",
+    "writeOnly",
+]);
+
+const LOWER_BOUNDS = [
+    "minimum",
+    "exclusiveMinimum",
+    "minLength",
+    "minItems",
+    "minProperties",
+];
+const UPPER_BOUNDS = [
+    "maximum",
+    "exclusiveMaximum",
+    "maxLength",
+    "maxItems",
+    "maxProperties",
+];
+
+type Schema = Record<string, unknown>;
+
+// Conservative structural check: returns why `next` may reject a payload
+// `prev` accepted, or undefined when it cannot. Changes it does not
+// understand are reported rather than assumed safe. Adding an optional
+// property is allowed even though open objects may already carry it.
+export function checkCompatible(
+    prev: unknown,
+    next: unknown,
+    path = "schema"
+): string | undefined {
+    if (isDeepStrictEqual(prev, next)) return undefined;
+    if (next === true || (isObject(next) && Object.keys(next).length === 0))
+        return undefined; // accepts everything
+    if (prev === false) return undefined; // accepted nothing
+    if (prev === true) return `${path}: newly restricted`;
+    if (next === false) return `${path}: no longer accepts anything`;
+    if (!isObject(prev) || !isObject(next))
+        return `${path}: not a schema`;
+
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+    for (const key of keys) {
+        if (ANNOTATIONS.has(key)) continue;
+        const a = prev[key];
+        const b = next[key];
+        const at = `${path}.${key}`;
+        if (isDeepStrictEqual(a, b)) continue;
+        if (b === undefined && key !== "properties") continue; // relaxed
+        let error: string | undefined;
+        if (key === "type") error = checkType(a, b, at);
+        else if (key === "required") error = checkRequired(a, b, at);
+        else if (key === "enum") error = checkEnum(a, b, at);
+        else if (key === "properties") error = checkProperties(prev, next, at);
+        else if (key === "additionalProperties" || key === "items")
+            error = checkCompatible(a ?? true, b, at);
+        else if (LOWER_BOUNDS.includes(key) || UPPER_BOUNDS.includes(key))
+            error = checkBound(key, a, b, at);
+        else error = `${at}: change cannot be checked for compatibility`;
+        if (error) return error;
+    }
+    return undefined;
+}
+
+function checkType(a: unknown, b: unknown, at: string) {
+    if (a === undefined) return `${at}: newly restricts the type`;
+    const before = typeof a === "string" ? [a] : (a as string[]);
+    const after = typeof b === "string" ? [b] : (b as string[]);
+    for (const t of before) {
+        const kept =
+            after.includes(t) || (t === "integer" && after.includes("number"));
+        if (!kept) return `${at}: no longer accepts ${t}`;
+    }
+    return undefined;
+}
+
+function checkRequired(a: unknown, b: unknown, at: string) {
+    const before = (a as string[] | undefined) ?? [];
+    const added = (b as string[]).find((p) => !before.includes(p));
+    return added === undefined ? undefined : `${at}: newly requires ${added}`;
+}
+
+function checkEnum(a: unknown, b: unknown, at: string) {
+    if (a === undefined) return `${at}: newly restricts values`;
+    const removed = (a as unknown[]).find(
+        (v) => !(b as unknown[]).some((w) => isDeepStrictEqual(v, w))
+    );
+    return removed === undefined
+        ? undefined
+        : `${at}: no longer accepts ${JSON.stringify(removed)}`;
+}
+
+function checkProperties(prev: Schema, next: Schema, at: string) {
+    const before = (prev.properties ?? {}) as Schema;
+    const after = (next.properties ?? {}) as Schema;
+    for (const [name, schema] of Object.entries(before)) {
+        if (name in after) {
+            const error = checkCompatible(schema, after[name], `${at}.${name}`);
+            if (error) return error;
+            continue;
+        }
+        // a removed property falls under additionalProperties
+        const rest = next.additionalProperties;
+        if (rest === false) return `${at}.${name}: no longer allowed`;
+        if (rest !== undefined) {
+            const error = checkCompatible(schema, rest, `${at}.${name}`);
+            if (error) return error;
+        }
+    }
+    return undefined;
+}
+
+function checkBound(key: string, a: unknown, b: unknown, at: string) {
+    if (a === undefined) return `${at}: newly added`;
+    const tighter = LOWER_BOUNDS.includes(key)
+        ? (b as number) > (a as number)
+        : (b as number) < (a as number);
+    return tighter ? `${at}: tightened from ${a} to ${b}` : undefined;
+}
+
+function isObject(value: unknown): value is Schema {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,238 @@
+import type { TopicStats } from "./types.js";
+
+// Prometheus text exposition (format 0.0.4) of the broker's state, built
+// by hand: the broker keeps its own counters and histograms, this module
+// only renders a snapshot of them.
+
+// publish-to-emit latency, seconds
+export const LATENCY_BUCKETS = [
+    0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+    10,
+];
+// subscribers a published message was queued for
+export const FANOUT_BUCKETS = [0, 1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+// label value the topics past the cardinality cap are folded into; not a
+// valid topic name, so it cannot collide with one
+export const OTHER_TOPICS = "(other)";
+
+export class Histogram {
+    // per bucket, not cumulative; the last one is +Inf
+    readonly counts: number[];
+    sum = 0;
+    count = 0;
+
+    constructor(readonly bounds: readonly number[]) {
+        this.counts = new Array<number>(bounds.length + 1).fill(0);
+    }
+
+    observe(value: number) {
+        let i = this.bounds.findIndex((b) => value <= b);
+        if (i < 0) i = this.bounds.length;
+        this.counts[i] = (this.counts[i] ?? 0) + 1;
+        this.sum += value;
+        this.count++;
+    }
+
+    // fold another histogram with the same bounds into this one
+    add(other: Histogram) {
+        other.counts.forEach((n, i) => {
+            this.counts[i] = (this.counts[i] ?? 0) + n;
+        });
+        this.sum += other.sum;
+        this.count += other.count;
+    }
+}
+
+// what the broker reports for one topic
+export interface TopicMetrics {
+    name: string;
+    stats: Omit<TopicStats, "groups" | "compacted_keys">;
+    queued: number; // events waiting in subscriber queues, summed
+    max_queued: number; // deepest single subscriber queue
+    retained: number;
+    latency: Histogram;
+    fanout: Histogram;
+}
+
+export interface MetricsSnapshot {
+    topics: TopicMetrics[]; // in creation order
+    connections: Record<string, number>; // key: transport
+}
+
+type Labels = Record<string, string>;
+
+type CounterKey = keyof Omit<
+    TopicStats,
+    "groups" | "subscribers" | "in_flight" | "scheduled" | "compacted_keys"
+>;
+
+const counters: [CounterKey, string, string][] = [
+    ["messages", "broker_messages_published_total", "Messages published"],
+    ["delivered", "broker_messages_delivered_total", "Events sent"],
+    ["dropped", "broker_messages_dropped_total", "Events dropped"],
+    ["acked", "broker_messages_acked_total", "Events acknowledged"],
+    ["redelivered", "broker_messages_redelivered_total", "Redeliveries"],
+    ["filtered", "broker_messages_filtered_total", "Events filtered out"],
+    ["rejected", "broker_publishes_rejected_total", "Publishes rejected"],
+    ["duplicates", "broker_publishes_duplicate_total", "Duplicate publishes"],
+    [
+        "rate_limited",
+        "broker_publishes_rate_limited_total",
+        "Publishes refused by a rate limit or quota",
+    ],
+    ["expired", "broker_messages_expired_total", "Messages expired"],
+    [
+        "dead_lettered",
+        "broker_messages_dead_lettered_total",
+        "Messages sent to the dead-letter topic",
+    ],
+    [
+        "slow_disconnects",
+        "broker_slow_consumer_disconnects_total",
+        "Subscribers disconnected as slow consumers",
+    ],
+];
+
+const gauges: [(t: TopicMetrics) => number, string, string][] = [
+    [(t) => t.stats.subscribers, "broker_subscribers", "Subscribers"],
+    [
+        (t) => t.queued,
+        "broker_subscriber_queue_depth",
+        "Events waiting in subscriber queues",
+    ],
+    [
+        (t) => t.max_queued,
+        "broker_subscriber_queue_depth_max",
+        "Events waiting in the deepest subscriber queue",
+    ],
+    [(t) => t.stats.in_flight, "broker_in_flight", "Events awaiting an ack"],
+    [(t) => t.stats.scheduled, "broker_scheduled", "Delayed publishes"],
+    [(t) => t.retained, "broker_retained", "Messages in the replay buffer"],
+];
+
+// Topics beyond `maxTopics` (in creation order) share the OTHER_TOPICS
+// label so the series count stays bounded however many topics exist.
+export function renderMetrics(
+    snapshot: MetricsSnapshot,
+    maxTopics: number
+): string {
+    const topics = capTopics(snapshot.topics, maxTopics);
+    const out = new Exposition();
+
+    out.family("broker_topics", "gauge", "Topics");
+    out.sample("broker_topics", {}, snapshot.topics.length);
+    out.family("broker_connections", "gauge", "Open client connections");
+    for (const [transport, n] of Object.entries(snapshot.connections))
+        out.sample("broker_connections", { transport }, n);
+
+    for (const [key, name, help] of counters) {
+        out.family(name, "counter", help);
+        for (const t of topics)
+            out.sample(name, { topic: t.name }, t.stats[key]);
+    }
+    for (const [get, name, help] of gauges) {
+        out.family(name, "gauge", help);
+        for (const t of topics) out.sample(name, { topic: t.name }, get(t));
+    }
+    out.histogram(
+        "broker_publish_to_emit_seconds",
+        "Time from publish until an event is sent to a subscriber",
+        topics.map((t) => [{ topic: t.name }, t.latency])
+    );
+    out.histogram(
+        "broker_fanout_subscribers",
+        "Subscribers a published message was queued for",
+        topics.map((t) => [{ topic: t.name }, t.fanout])
+    );
+    return out.toString();
+}
+
+function capTopics(topics: TopicMetrics[], max: number): TopicMetrics[] {
+    if (topics.length <= max) return topics;
+    const kept = topics.slice(0, max);
+    const rest = topics.slice(max);
+    const other: TopicMetrics = {
+        name: OTHER_TOPICS,
+        stats: {
+            messages: 0,
+            subscribers: 0,
+            delivered: 0,
+            dropped: 0,
+            acked: 0,
+            redelivered: 0,
+            in_flight: 0,
+            filtered: 0,
+            rejected: 0,
+            slow_disconnects: 0,
+            duplicates: 0,
+            expired: 0,
+            scheduled: 0,
+            dead_lettered: 0,
+            rate_limited: 0,
+        },
+        queued: 0,
+        max_queued: 0,
+        retained: 0,
+        latency: new Histogram(LATENCY_BUCKETS),
+        fanout: new Histogram(FANOUT_BUCKETS),
+    };
+    for (const t of rest) {
+        const keys = Object.keys(other.stats) as (keyof typeof other.stats)[];
+        for (const key of keys) other.stats[key] += t.stats[key];
+        other.queued += t.queued;
+        other.max_queued = Math.max(other.max_queued, t.max_queued);
+        other.retained += t.retained;
+        other.latency.add(t.latency);
+        other.fanout.add(t.fanout);
+    }
+    return [...kept, other];
+}
+
+class Exposition {
+    private lines: string[] = [];
+
+    family(name: string, type: string, help: string) {
+        this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    }
+
+    sample(name: string, labels: Labels, value: number) {
+        this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+
+    histogram(name: string, help: string, series: [Labels, Histogram][]) {
+        this.family(name, "histogram", help);
+        for (const [labels, h] of series) {
+            let cumulative = 0;
+            h.counts.forEach((n, i) => {
+                cumulative += n;
+                const le = i < h.bounds.length ? String(h.bounds[i]) : "+Inf";
+                this.sample(`${name}_bucket`, { ...labels, le }, cumulative);
+            });
+            this.sample(`${name}_sum`, labels, h.sum);
+            this.sample(`${name}_count`, labels, h.count);
+        }
+    }
+
+    toString(): string {
+        return this.lines.join("\n") + "\n";
+    }
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([k, v]) => {
+        const escaped = v
+            .replace(/\\/g, "\\\\")
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, "\\n");
+        return `${k}="${escaped}"`;
+    });
+    return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
@@ -0,0 +1,41 @@
+// Topic patterns are dot-separated like topic names, where a `*` segment
+// matches exactly one segment and `#` matches zero or more:
+// `orders.*` matches `orders.created`, `orders.#` also `orders.eu.created`.
+const patternSchema = /^([a-zA-Z0-9_-]+|\*|#)(\.([a-zA-Z0-9_-]+|\*|#))*$/;
+
+// topic names cannot contain wildcards, so any wildcard makes it a pattern
+export function isPattern(name: string): boolean {
+    return name.includes("*") || name.includes("#");
+}
+
+export function isValidPattern(pattern: string): boolean {
+    return patternSchema.test(pattern);
+}
+
+// Dynamic programming, one pass over the topic's segments per pattern
+// segment, so matching costs O(P·T) however many `#` a pattern has: after
+// each pattern segment, reach[j] says whether the pattern so far matches
+// exactly the first j topic segments.
+export function matchesPattern(pattern: string, topic: string): boolean {
+    const t = topic.split(".");
+    let reach = new Array<boolean>(t.length + 1).fill(false);
+    reach[0] = true;
+    for (const seg of pattern.split(".")) {
+        const next = new Array<boolean>(t.length + 1).fill(false);
+        if (seg === "#") {
+            // zero or more segments: anything reachable so far, or later
+            let any = false;
+            for (let j = 0; j <= t.length; j++) {
+                any ||= reach[j] ?? false;
+                next[j] = any;
+            }
+        } else {
+            for (let j = 1; j <= t.length; j++) {
+                const fits = seg === "*" || seg === t[j - 1];
+                next[j] = fits && (reach[j - 1] ?? false);
+            }
+        }
+        reach = next;
+    }
+    return reach[t.length] ?? false;
+}
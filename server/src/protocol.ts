@@ -0,0 +1,302 @@
+import type { InMemoryBroker } from "./broker.js";
+import type { Connection } from "./connection.js";
+import { can, meteredClient, type Principal } from "./auth.js";
+import { parseClientMessage } from "./schemas.js";
+import type { BatchResult, ClientMessage, ErrorCode } from "./types.js";
+
+export interface ProtocolOptions {
+    maxMalformed: number; // invalid messages tolerated per connection
+}
+
+// The ClientMessage protocol, independent of the transport that carried the
+// frame: socket.io and raw WebSocket connections both dispatch through here.
+export class ProtocolHandler {
+    private malformed = new WeakMap<Connection, number>();
+
+    constructor(
+        private broker: InMemoryBroker,
+        private opts: ProtocolOptions
+    ) {}
+
+    // a text frame from a transport that does not decode JSON itself
+    handleFrame(conn: Connection, principal: Principal, text: string) {
+        let input: unknown;
+        try {
+            input = JSON.parse(text);
+        } catch {
+            return this.reject(conn, undefined, "invalid JSON");
+        }
+        this.handle(conn, principal, input);
+    }
+
+    handle(conn: Connection, principal: Principal, input: unknown) {
+        const parsed = parseClientMessage(input);
+        if (!parsed.ok) {
+            const requestId = (input as { request_id?: unknown } | null)
+                ?.request_id;
+            return this.reject(
+                conn,
+                typeof requestId === "string" ? requestId : undefined,
+                parsed.error
+            );
+        }
+        dispatch(this.broker, conn, principal, parsed.msg);
+    }
+
+    // answer with BAD_REQUEST; a client that keeps sending garbage is
+    // broken or hostile, so past the limit the connection is closed
+    private reject(
+        conn: Connection,
+        requestId: string | undefined,
+        message: string
+    ) {
+        const count = (this.malformed.get(conn) ?? 0) + 1;
+        this.malformed.set(conn, count);
+        conn.send({
+            type: "error",
+            request_id: requestId,
+            error: { code: "BAD_REQUEST", message },
+            ts: new Date().toISOString(),
+        });
+        if (count >= this.opts.maxMalformed) conn.close();
+    }
+}
+
+function dispatch(
+    broker: InMemoryBroker,
+    conn: Connection,
+    principal: Principal,
+    msg: ClientMessage
+) {
+    const now = new Date().toISOString();
+    const fail = (code: ErrorCode, message: string, retryAfterMs?: number) =>
+        conn.send({
+            type: "error",
+            request_id: msg.request_id,
+            error: {
+                code,
+                message,
+                ...(retryAfterMs !== undefined && {
+                    retry_after_ms: retryAfterMs,
+                }),
+            },
+            ts: now,
+        });
+    try {
+        switch (msg.type) {
+            case "subscribe": {
+                broker.subscribe(
+                    conn,
+                    msg.topic,
+                    msg.client_id,
+                    {
+                        lastN: msg.last_n,
+                        fromOffset: msg.from_offset,
+                        fromTimestamp: msg.from_timestamp,
+                        snapshot: msg.snapshot,
+                        delivery: msg.delivery,
+                        group: msg.group,
+                        overflow: msg.overflow,
+                        filter: msg.filter,
+                        batchMs: msg.batch_ms,
+                        authorize: (topic) =>
+                            can(principal, "subscribe", topic),
+                    },
+                    msg.request_id
+                );
+                break;
+            }
+            case "unsubscribe": {
+                broker.unsubscribe(
+                    conn,
+                    msg.topic,
+                    msg.client_id,
+                    msg.request_id
+                );
+                break;
+            }
+            case "publish": {
+                if (!can(principal, "publish", msg.topic)) {
+                    fail(
+                        "UNAUTHORIZED",
+                        `not allowed to publish to ${msg.topic}`
+                    );
+                    break;
+                }
+                const opts = {
+                    ttlMs: msg.ttl_ms,
+                    clientId: meteredClient(principal, msg.client_id),
+                };
+                const delayed =
+                    msg.deliver_at !== undefined || msg.delay_ms !== undefined;
+                if (delayed) {
+                    const deliverAt =
+                        msg.deliver_at !== undefined
+                            ? Date.parse(msg.deliver_at)
+                            : Date.now() + (msg.delay_ms ?? 0);
+                    const result = broker.schedule(
+                        msg.topic,
+                        msg.message,
+                        deliverAt,
+                        opts
+                    );
+                    if (!result.ok)
+                        fail(result.code, result.message, result.retryAfterMs);
+                    else
+                        conn.send({
+                            type: "ack",
+                            request_id: msg.request_id,
+                            topic: msg.topic,
+                            status: "ok",
+                            schedule_id: result.id,
+                            deliver_at: result.deliverAt,
+                            ts: now,
+                        });
+                    break;
+                }
+                const result = broker.publish(msg.topic, msg.message, opts);
+                if (!result.ok) {
+                    fail(result.code, result.message, result.retryAfterMs);
+                } else {
+                    conn.send({
+                        type: "ack",
+                        request_id: msg.request_id,
+                        topic: msg.topic,
+                        status: "ok",
+                        offset: result.offset,
+                        ...(result.duplicate && { duplicate: true }),
+                        ts: result.ts,
+                    });
+                }
+                break;
+            }
+            // unlike an HTTP array, a failed message does not stop the rest
+            case "publish_batch": {
+                const clientId = meteredClient(principal, msg.client_id);
+                const results = msg.messages.map(
+                    ({ topic, message, ttl_ms }): BatchResult => {
+                        const id = message.id;
+                        if (!can(principal, "publish", topic))
+                            return {
+                                topic,
+                                id,
+                                status: "error",
+                                error: {
+                                    code: "UNAUTHORIZED",
+                                    message: `not allowed to publish to ${topic}`,
+                                },
+                            };
+                        const result = broker.publish(topic, message, {
+                            ttlMs: ttl_ms,
+                            clientId,
+                        });
+                        if (!result.ok)
+                            return {
+                                topic,
+                                id,
+                                status: "error",
+                                error: {
+                                    code: result.code,
+                                    message: result.message,
+                                    ...(result.retryAfterMs !== undefined && {
+                                        retry_after_ms: result.retryAfterMs,
+                                    }),
+                                },
+                            };
+                        return {
+                            topic,
+                            id,
+                            status: "ok",
+                            offset: result.offset,
+                            ...(result.duplicate && { duplicate: true }),
+                        };
+                    }
+                );
+                conn.send({
+                    type: "ack",
+                    request_id: msg.request_id,
+                    status: "ok",
+                    results,
+                    ts: now,
+                });
+                break;
+            }
+            // answered later by a `response` or a TIMEOUT error
+            case "request": {
+                if (!can(principal, "publish", msg.topic)) {
+                    fail(
+                        "UNAUTHORIZED",
+                        `not allowed to publish to ${msg.topic}`
+                    );
+                    break;
+                }
+                const result = broker.request(
+                    conn,
+                    msg.topic,
+                    msg.message,
+                    msg.request_id,
+                    {
+                        ttlMs: msg.ttl_ms,
+                        clientId: meteredClient(principal, msg.client_id),
+                        timeoutMs: msg.timeout_ms,
+                    }
+                );
+                if (!result.ok)
+                    fail(result.code, result.message, result.retryAfterMs);
+                break;
+            }
+            // holding the inbox is what entitles a responder to answer
+            case "reply": {
+                const result = broker.reply(
+                    msg.reply_to,
+                    msg.correlation_id,
+                    msg.message
+                );
+                if (!result.ok) fail(result.code, result.message);
+                // a reply passed to the peers is not confirmed
+                else if (msg.request_id && !result.forwarded)
+                    conn.send({
+                        type: "ack",
+                        request_id: msg.request_id,
+                        status: "ok",
+                        ts: now,
+                    });
+                break;
+            }
+            case "event_ack": {
+                broker.ackEvent(
+                    conn,
+                    msg.topic,
+                    msg.delivery_id,
+                    msg.request_id
+                );
+                break;
+            }
+            case "session": {
+                broker.openSession(
+                    conn,
+                    msg.client_id,
+                    principal.id,
+                    msg.token,
+                    msg.request_id
+                );
+                break;
+            }
+            case "ping": {
+                conn.send({
+                    type: "pong",
+                    request_id: msg.request_id,
+                    ts: now,
+                });
+                break;
+            }
+        }
+    } catch (err) {
+        conn.send({
+            type: "error",
+            request_id: msg.request_id,
+            error: { code: "INTERNAL", message: "internal error" },
+            ts: now,
+        });
+    }
+}
@@ -0,0 +1,233 @@
+import fs from "fs";
+import { z } from "zod";
+import type { ClientUsage } from "./types.js";
+
+const limitSchema = z.strictObject({
+    rate: z.number().positive().optional(), // publishes per second
+    burst: z.number().int().positive().optional(), // default: max(1, rate)
+    daily_messages: z.number().int().positive().optional(), // per UTC day
+    daily_bytes: z.number().int().positive().optional(), // payload bytes
+});
+export type Limit = z.infer<typeof limitSchema>;
+
+// `clients`/`topics` entries replace the defaults for that client or topic
+const rateLimitConfigSchema = z.strictObject({
+    global: limitSchema.optional(),
+    client_default: limitSchema.optional(),
+    clients: z.record(z.string(), limitSchema).default({}),
+    topic_default: limitSchema.optional(),
+    topics: z.record(z.string(), limitSchema).default({}),
+});
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+export const NO_LIMITS: RateLimitConfig = { clients: {}, topics: {} };
+
+// meters kept per map; past it the least recently used one is forgotten,
+// so made-up client_ids cannot grow the limiter without bound
+const MAX_METERS = 100_000;
+
+export function loadRateLimits(file: string | undefined): RateLimitConfig {
+    if (!file) return NO_LIMITS;
+    return rateLimitConfigSchema.parse(
+        JSON.parse(fs.readFileSync(file, "utf8"))
+    );
+}
+
+export type LimitScope = "global" | "topic" | "client";
+
+export interface Denial {
+    scope: LimitScope;
+    limit: "rate" | "daily_messages" | "daily_bytes";
+    retryAfterMs: number;
+}
+
+// a token bucket plus the day's counters for one client, topic or the
+// whole broker
+interface Meter {
+    tokens: number;
+    refilled: number; // epoch ms
+    day: string; // UTC date the counters belong to
+    messages: number;
+    bytes: number;
+    rejected: number;
+}
+
+// Token-bucket rate limits and daily quotas, checked per publishing client,
+// per topic and broker-wide. Every client is metered for usage reporting,
+// limited or not. Meters from an earlier day go on the first publish of a
+// new one.
+export class RateLimiter {
+    // least recently used first
+    private clients = new Map<string, Meter>(); // key: client_id
+    private topics = new Map<string, Meter>(); // key: topic name
+    private global?: Meter;
+    private day = ""; // UTC date of the last publish
+
+    constructor(private config: RateLimitConfig) {}
+
+    // every limit that applies is checked before any is counted against,
+    // so a refused publish uses up nothing
+    take(
+        clientId: string,
+        topic: string,
+        bytes: number,
+        now = Date.now()
+    ): Denial | undefined {
+        const today = utcDay(now);
+        if (today !== this.day) {
+            this.day = today;
+            for (const meters of [this.clients, this.topics])
+                for (const [key, meter] of meters)
+                    if (meter.day !== today) meters.delete(key);
+        }
+        const client = this.meter(this.clients, clientId, now);
+        const checks: [LimitScope, Meter, Limit | undefined][] = [
+            ["client", client, this.clientLimit(clientId)],
+        ];
+        const topicLimit = this.topicLimit(topic);
+        if (topicLimit)
+            checks.push([
+                "topic",
+                this.meter(this.topics, topic, now),
+                topicLimit,
+            ]);
+        if (this.config.global) {
+            this.global = this.refresh(this.global, now);
+            checks.push(["global", this.global, this.config.global]);
+        }
+        for (const [scope, meter, limit] of checks) {
+            if (!limit) continue;
+            const denied = check(meter, limit, bytes, now);
+            if (denied) {
+                client.rejected++;
+                return { scope, ...denied };
+            }
+        }
+        for (const [, meter, limit] of checks) {
+            if (limit?.rate !== undefined) meter.tokens -= 1;
+            meter.messages++;
+            meter.bytes += bytes;
+        }
+        return undefined;
+    }
+
+    usage(clientId: string, now = Date.now()): ClientUsage {
+        const meter = this.clients.get(clientId);
+        const limit = this.clientLimit(clientId) ?? {};
+        const fresh = this.refresh(meter, now);
+        if (limit.rate !== undefined) refill(fresh, limit, now);
+        const usage: ClientUsage = {
+            client_id: clientId,
+            day: fresh.day,
+            messages: fresh.messages,
+            bytes: fresh.bytes,
+            rejected: fresh.rejected,
+            limits: limit,
+        };
+        if (limit.rate !== undefined)
+            usage.tokens = Math.floor(fresh.tokens * 100) / 100;
+        return usage;
+    }
+
+    // clients that published or were refused today
+    allUsage(now = Date.now()): ClientUsage[] {
+        const today = utcDay(now);
+        return Array.from(this.clients)
+            .filter(([, meter]) => meter.day === today)
+            .map(([id]) => this.usage(id, now));
+    }
+
+    // a deleted topic's meter; a topic created again under the name starts
+    // afresh
+    forgetTopic(topic: string) {
+        this.topics.delete(topic);
+    }
+
+    private clientLimit(clientId: string): Limit | undefined {
+        return this.config.clients[clientId] ?? this.config.client_default;
+    }
+
+    private topicLimit(topic: string): Limit | undefined {
+        return this.config.topics[topic] ?? this.config.topic_default;
+    }
+
+    private meter(meters: Map<string, Meter>, key: string, now: number) {
+        const meter = this.refresh(meters.get(key), now);
+        meters.delete(key); // re-insert as most recently used
+        meters.set(key, meter);
+        if (meters.size > MAX_METERS) {
+            const oldest = meters.keys().next();
+            if (!oldest.done) meters.delete(oldest.value);
+        }
+        return meter;
+    }
+
+    // a new meter starts with a full bucket; a new day resets the counters
+    private refresh(meter: Meter | undefined, now: number): Meter {
+        const day = utcDay(now);
+        if (!meter)
+            return {
+                tokens: Infinity, // capped to the burst on first refill
+                refilled: now,
+                day,
+                messages: 0,
+                bytes: 0,
+                rejected: 0,
+            };
+        if (meter.day !== day) {
+            meter.day = day;
+            meter.messages = 0;
+            meter.bytes = 0;
+            meter.rejected = 0;
+        }
+        return meter;
+    }
+}
+
+function check(
+    meter: Meter,
+    limit: Limit,
+    bytes: number,
+    now: number
+): Omit<Denial, "scope"> | undefined {
+    if (
+        limit.daily_messages !== undefined &&
+        meter.messages + 1 > limit.daily_messages
+    )
+        return { limit: "daily_messages", retryAfterMs: untilTomorrow(now) };
+    if (
+        limit.daily_bytes !== undefined &&
+        meter.bytes + bytes > limit.daily_bytes
+    )
+        return { limit: "daily_bytes", retryAfterMs: untilTomorrow(now) };
+    if (limit.rate !== undefined) {
+        refill(meter, limit, now);
+        if (meter.tokens < 1) {
+            const wait = ((1 - meter.tokens) / limit.rate) * 1000;
+            return { limit: "rate", retryAfterMs: Math.ceil(wait) };
+        }
+    }
+    return undefined;
+}
+
+function refill(meter: Meter, limit: Limit, now: number) {
+    const rate = limit.rate ?? 0;
+    const burst = limit.burst ?? Math.max(1, rate);
+    const elapsed = Math.max(0, now - meter.refilled) / 1000;
+    meter.tokens = Math.min(burst, meter.tokens + elapsed * rate);
+    meter.refilled = now;
+}
+
+function utcDay(now: number): string {
+    return new Date(now).toISOString().slice(0, 10);
+}
+
+function untilTomorrow(now: number): number {
+    const d = new Date(now);
+    const midnight = Date.UTC(
+        d.getUTCFullYear(),
+        d.getUTCMonth(),
+        d.getUTCDate() + 1
+    );
+    return midnight - now;
+}
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { isPattern, isValidPattern } from "./pattern.js";
+import type { ClientMessage, ClientMessageType } from "./types.js";
+
+// Runtime validation of everything clients send. The ClientMessage types in
+// types.ts are inferred from these schemas, so the two cannot drift apart.
+
+export const topicNameSchema = z
+    .string()
+    .min(1)
+    .max(200)
+    .regex(/^[a-zA-Z0-9._-]+$/);
+
+// subscribe/unsubscribe also accept patterns (see pattern.ts)
+const topicOrPatternSchema = z
+    .string()
+    .min(1)
+    .max(200)
+    .refine(
+        (t) => (isPattern(t) ? isValidPattern(t) : /^[a-zA-Z0-9._-]+$/.test(t)),
+        "invalid topic name or pattern"
+    );
+
+const idSchema = z.string().min(1).max(200);
+
+const overflowSchema = z.enum([
+    "drop_oldest",
+    "drop_newest",
+    "disconnect",
+    "reject_publish",
+]);
+
+// largest message a socket.io or /raw frame carries; a payload limit above
+// it could only be reached over HTTP
+export const MAX_FRAME_BYTES = 1_000_000;
+
+// POST /topics `config` and PATCH /topics/:name; omitted fields keep their
+// current value (broker defaults for a new topic)
+export const topicConfigSchema = z.strictObject({
+    retention: z.number().int().nonnegative().max(1_000_000).optional(),
+    queue_size: z.number().int().positive().max(1_000_000).optional(),
+    overflow: overflowSchema.optional(),
+    max_payload_bytes: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_FRAME_BYTES)
+        .optional(),
+    dead_letter: topicNameSchema.nullable().optional(), // null: none
+    compacted: z.boolean().optional(), // fixed once the topic exists
+});
+
+export const MAX_HEADERS = 64;
+
+export const publishPayloadSchema = z.strictObject({
+    id: idSchema,
+    payload: z.unknown().refine((p) => p !== undefined, "payload is required"),
+    headers: z
+        .record(z.string().min(1).max(200), z.string().max(4096))
+        .refine(
+            (h) => Object.keys(h).length <= MAX_HEADERS,
+            `at most ${MAX_HEADERS} headers`
+        )
+        .optional(),
+    key: idSchema.optional(), // ordering key, see ConsumerGroup
+});
+
+const base = { request_id: idSchema.optional() };
+
+export const subscribeMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("subscribe"),
+    topic: topicOrPatternSchema,
+    client_id: idSchema,
+    last_n: z.number().int().nonnegative().optional(),
+    from_offset: z.number().int().nonnegative().optional(),
+    from_timestamp: z.string().optional(), // ISO 8601, parsed by the broker
+    snapshot: z.boolean().optional(), // everything retained, see compaction.ts
+    delivery: z.enum(["at_most_once", "at_least_once"]).optional(),
+    group: idSchema.optional(),
+    overflow: overflowSchema.optional(),
+    filter: z.unknown().optional(), // compiled by filter.ts
+    // receive `events` frames, gathering events for up to this long
+    batch_ms: z.number().int().nonnegative().max(1000).optional(),
+});
+
+export const unsubscribeMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("unsubscribe"),
+    topic: topicOrPatternSchema,
+    client_id: idSchema,
+});
+
+// longest delay a timer can hold (~24.8 days)
+export const MAX_DELAY_MS = 2 ** 31 - 1;
+
+export const publishMessageSchema = z
+    .strictObject({
+        ...base,
+        type: z.literal("publish"),
+        topic: topicNameSchema,
+        message: publishPayloadSchema,
+        client_id: idSchema.optional(), // rate limits; default: principal
+        ttl_ms: z.number().int().positive().optional(),
+        // delayed delivery, at most one of: absolute time, relative delay
+        deliver_at: z.iso.datetime({ offset: true }).optional(),
+        delay_ms: z.number().int().nonnegative().max(MAX_DELAY_MS).optional(),
+    })
+    .refine((m) => m.deliver_at === undefined || m.delay_ms === undefined, {
+        message: "use only one of deliver_at, delay_ms",
+    });
+
+// publishes `message` with a private reply inbox; the requester gets the
+// first reply, or a TIMEOUT error, under its request_id
+export const requestMessageSchema = z.strictObject({
+    request_id: idSchema, // required: also the correlation id
+    type: z.literal("request"),
+    topic: topicNameSchema,
+    message: publishPayloadSchema,
+    client_id: idSchema.optional(), // rate limits; default: principal
+    ttl_ms: z.number().int().positive().optional(),
+    timeout_ms: z.number().int().positive().max(MAX_DELAY_MS).optional(),
+});
+
+// a responder's answer to the `request` of an event
+export const replyMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("reply"),
+    reply_to: idSchema,
+    correlation_id: idSchema,
+    message: publishPayloadSchema,
+});
+
+// opens a durable session, or resumes the one `token` was issued for
+export const sessionMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("session"),
+    client_id: idSchema,
+    token: idSchema.optional(),
+});
+
+export const MAX_BATCH_SIZE = 1000;
+
+const batchEntrySchema = z.strictObject({
+    topic: topicNameSchema,
+    message: publishPayloadSchema,
+    ttl_ms: z.number().int().positive().optional(),
+});
+
+// many publishes, to one topic or several, in one frame; applied in order
+// and answered by one ack
+export const publishBatchMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("publish_batch"),
+    messages: z.array(batchEntrySchema).min(1).max(MAX_BATCH_SIZE),
+    client_id: idSchema.optional(), // rate limits; default: principal
+});
+
+export const pingMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("ping"),
+});
+
+export const eventAckMessageSchema = z.strictObject({
+    ...base,
+    type: z.literal("event_ack"),
+    topic: topicNameSchema,
+    delivery_id: idSchema,
+});
+
+const messageSchemas = new Map<string, z.ZodType<ClientMessage>>([
+    ["subscribe", subscribeMessageSchema],
+    ["unsubscribe", unsubscribeMessageSchema],
+    ["publish", publishMessageSchema],
+    ["publish_batch", publishBatchMessageSchema],
+    ["request", requestMessageSchema],
+    ["reply", replyMessageSchema],
+    ["session", sessionMessageSchema],
+    ["ping", pingMessageSchema],
+    ["event_ack", eventAckMessageSchema],
+] satisfies [ClientMessageType, z.ZodType<ClientMessage>][]);
+
+// dispatched on `type` so errors name the failing field of that message
+// instead of listing every variant of a union
+export function parseClientMessage(
+    input: unknown
+): { ok: true; msg: ClientMessage } | { ok: false; error: string } {
+    if (!input || typeof input !== "object" || Array.isArray(input))
+        return { ok: false, error: "message must be a JSON object" };
+    const type = (input as { type?: unknown }).type;
+    const schema = typeof type === "string" && messageSchemas.get(type);
+    if (!schema)
+        return { ok: false, error: `unknown type ${JSON.stringify(type)}` };
+    const result = schema.safeParse(input);
+    if (result.success) return { ok: true, msg: result.data };
+    const issue = result.error.issues[0];
+    const at = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    return {
+        ok: false,
+        error: `invalid ${type} message${at}: ${issue?.message}`,
+    };
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import type { Connection } from "./connection.js";
+import type { ServerMessage } from "./types.js";
+
+// A durable client session, opened with a `session` message. Subscriptions
+// made through it belong to the session instead of the transport
+// connection, so they outlive a disconnect: while no connection is attached
+// the session reports an unbounded backlog and the broker holds events in
+// the subscriber queues, where overflow policies still apply, until the
+// client resumes with the token or the grace period runs out.
+export class Session implements Connection {
+    readonly id: string; // key of the session's subscriptions
+    readonly token = randomUUID();
+    conn?: Connection | undefined; // attached transport connection
+    expiry?: NodeJS.Timeout; // grace period while detached
+
+    constructor(
+        readonly clientId: string,
+        readonly principal: string, // only this principal may resume it
+        private onClose: (session: Session) => void
+    ) {
+        // cannot collide with transport connection ids, which are random
+        this.id = `session:${clientId}`;
+    }
+
+    get transport(): string {
+        return this.conn?.transport ?? "session";
+    }
+
+    // sent while detached is lost; events wait in the queues instead
+    send(msg: ServerMessage) {
+        this.conn?.send(msg);
+    }
+
+    // the broker gives up on the subscriber (topic deleted, slow consumer):
+    // the session ends with its connection
+    close() {
+        this.onClose(this);
+    }
+
+    backlog(): number {
+        return this.conn ? this.conn.backlog() : Infinity;
+    }
+}
@@ -0,0 +1,38 @@
+import { randomUUID } from "crypto";
+import type { Response } from "express";
+import type { Connection } from "./connection.js";
+import type { ServerMessage } from "./types.js";
+
+// One GET /topics/:name/stream response. Every server message becomes an
+// SSE event named after its type, events carry their offset as the event
+// id, and the broker heartbeat is sent as a comment line.
+export class SseConnection implements Connection {
+    readonly id = randomUUID();
+    readonly transport = "sse";
+    private pending = 0; // frames written since the stream last drained
+
+    constructor(private res: Response) {
+        res.on("drain", () => (this.pending = 0));
+    }
+
+    send(msg: ServerMessage) {
+        if (this.res.writableEnded) return;
+        let frame: string;
+        if (msg.type === "info" && msg.msg === "ping") {
+            frame = `: ping ${msg.ts}\n\n`;
+        } else {
+            const id = msg.type === "event" ? `id: ${msg.offset}\n` : "";
+            frame = `${id}event: ${msg.type}\ndata: ${JSON.stringify(msg)}\n\n`;
+        }
+        this.res.write(frame);
+        if (this.res.writableNeedDrain) this.pending++;
+    }
+
+    close() {
+        this.res.end();
+    }
+
+    backlog(): number {
+        return this.pending;
+    }
+}
@@ -0,0 +1,260 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { compact } from "./compaction.js";
+import type { StoredMessage, TopicConfigPatch } from "./types.js";
+
+// the newest message a topic published, retained or not: offsets and the
+// broker-wide seq carry on after it
+export interface PublishMark {
+    offset: number;
+    seq: number;
+    ts: number; // epoch ms
+}
+
+export interface StoredTopic {
+    name: string;
+    messages: StoredMessage[]; // oldest first
+    last?: PublishMark;
+    schemas: unknown[]; // payload schema versions, version 1 first
+    config: TopicConfigPatch;
+}
+
+// Persistence hook for InMemoryBroker. The broker always serves from memory;
+// a backend records every change and hands the state back on startup.
+export interface BrokerStorage {
+    load(): StoredTopic[]; // called once, before any writes
+    createTopic(name: string): void;
+    deleteTopic(name: string): void;
+    addSchema(topic: string, schema: unknown): void;
+    configureTopic(topic: string, config: TopicConfigPatch): void;
+    append(topic: string, stored: StoredMessage): void;
+    close(): void;
+}
+
+// Default backend: nothing survives a restart.
+export class MemoryStorage implements BrokerStorage {
+    load(): StoredTopic[] {
+        return [];
+    }
+    createTopic(_name: string) {}
+    deleteTopic(_name: string) {}
+    addSchema(_topic: string, _schema: unknown) {}
+    configureTopic(_topic: string, _config: TopicConfigPatch) {}
+    append(_topic: string, _stored: StoredMessage) {}
+    close() {}
+}
+
+const storageEnvSchema = z.object({
+    STORAGE: z.enum(["memory", "file"]).default("memory"),
+    DATA_DIR: z.string().min(1).default("data"),
+    FSYNC: z.enum(["always", "interval", "never"]).default("interval"),
+    FSYNC_INTERVAL_MS: z.coerce.number().int().positive().default(1000),
+});
+export type FsyncPolicy = z.infer<typeof storageEnvSchema>["FSYNC"];
+
+// picks the backend from STORAGE, DATA_DIR, FSYNC and FSYNC_INTERVAL_MS;
+// throws on a bad value so a typo fails startup instead of losing durability
+export function loadStorage(
+    env: Record<string, string | undefined>,
+    retain: number
+): BrokerStorage {
+    const config = storageEnvSchema.parse(env);
+    if (config.STORAGE === "memory") return new MemoryStorage();
+    return new FileStorage({
+        dir: config.DATA_DIR,
+        fsync: config.FSYNC,
+        fsyncIntervalMs: config.FSYNC_INTERVAL_MS,
+        retain,
+    });
+}
+
+export interface FileStorageOptions {
+    dir: string;
+    fsync: FsyncPolicy; // always: per write; interval: timer; never: OS decides
+    fsyncIntervalMs: number;
+    retain: number; // default messages per topic kept when compacting on load
+}
+
+type LogRecord =
+    | { op: "create"; topic: string }
+    | { op: "delete"; topic: string }
+    | { op: "schema"; topic: string; schema: unknown }
+    | { op: "config"; topic: string; config: TopicConfigPatch }
+    // written by the rewrite, which may have trimmed the newest messages
+    | ({ op: "mark"; topic: string } & PublishMark)
+    | ({ op: "publish"; topic: string } & StoredMessage);
+
+// Append-only JSON-lines log. On load the log is replayed, a torn tail from
+// a crash mid-write is discarded, and the result is rewritten compacted so
+// the file only grows with the traffic since the last start.
+export class FileStorage implements BrokerStorage {
+    private file: string;
+    private fd: number | undefined;
+    private dirty = false;
+    private fsyncTimer?: NodeJS.Timeout;
+
+    constructor(private opts: FileStorageOptions) {
+        this.file = path.join(opts.dir, "broker.log");
+    }
+
+    load(): StoredTopic[] {
+        fs.mkdirSync(this.opts.dir, { recursive: true });
+        const topics = new Map<string, StoredTopic>();
+        if (fs.existsSync(this.file)) {
+            const lines = fs.readFileSync(this.file, "utf8").split("\n");
+            for (const line of lines) {
+                if (!line) continue;
+                let rec: LogRecord;
+                try {
+                    rec = JSON.parse(line);
+                } catch {
+                    break; // torn write: everything after it is unreliable
+                }
+                this.apply(topics, rec);
+            }
+        }
+        for (const topic of topics.values())
+            if (topic.config.compacted)
+                topic.messages = compact(topic.messages);
+
+        const tmp = this.file + ".tmp";
+        const out = fs.openSync(tmp, "w");
+        for (const topic of topics.values()) {
+            const { name, messages, schemas, config, last } = topic;
+            fs.writeSync(out, this.encode({ op: "create", topic: name }));
+            if (Object.keys(config).length > 0)
+                fs.writeSync(
+                    out,
+                    this.encode({ op: "config", topic: name, config })
+                );
+            for (const schema of schemas)
+                fs.writeSync(
+                    out,
+                    this.encode({ op: "schema", topic: name, schema })
+                );
+            for (const stored of messages)
+                fs.writeSync(
+                    out,
+                    this.encode({ op: "publish", topic: name, ...stored })
+                );
+            if (last)
+                fs.writeSync(
+                    out,
+                    this.encode({ op: "mark", topic: name, ...last })
+                );
+        }
+        fs.fsyncSync(out);
+        fs.closeSync(out);
+        fs.renameSync(tmp, this.file);
+
+        this.fd = fs.openSync(this.file, "a");
+        if (this.opts.fsync === "interval") {
+            this.fsyncTimer = setInterval(
+                () => this.sync(),
+                this.opts.fsyncIntervalMs
+            );
+            this.fsyncTimer.unref();
+        }
+        return Array.from(topics.values());
+    }
+
+    createTopic(name: string) {
+        this.write({ op: "create", topic: name });
+    }
+
+    deleteTopic(name: string) {
+        this.write({ op: "delete", topic: name });
+    }
+
+    addSchema(topic: string, schema: unknown) {
+        this.write({ op: "schema", topic, schema });
+    }
+
+    configureTopic(topic: string, config: TopicConfigPatch) {
+        this.write({ op: "config", topic, config });
+    }
+
+    append(topic: string, stored: StoredMessage) {
+        this.write({ op: "publish", topic, ...stored });
+    }
+
+    close() {
+        if (this.fsyncTimer) clearInterval(this.fsyncTimer);
+        if (this.fd === undefined) return;
+        this.sync();
+        fs.closeSync(this.fd);
+        this.fd = undefined;
+    }
+
+    private apply(topics: Map<string, StoredTopic>, rec: LogRecord) {
+        switch (rec.op) {
+            case "create":
+                if (!topics.has(rec.topic))
+                    topics.set(rec.topic, {
+                        name: rec.topic,
+                        messages: [],
+                        schemas: [],
+                        config: {},
+                    });
+                break;
+            case "delete":
+                topics.delete(rec.topic);
+                break;
+            case "schema":
+                topics.get(rec.topic)?.schemas.push(rec.schema);
+                break;
+            case "config": {
+                const topic = topics.get(rec.topic);
+                if (!topic) break;
+                topic.config = rec.config;
+                this.trim(topic);
+                break;
+            }
+            case "publish": {
+                const { op: _op, topic: name, ...stored } = rec;
+                const topic = topics.get(name);
+                if (!topic) break;
+                topic.messages.push(stored);
+                topic.last = {
+                    offset: stored.offset,
+                    seq: stored.seq,
+                    ts: stored.ts,
+                };
+                this.trim(topic);
+                break;
+            }
+            case "mark": {
+                const { op: _op, topic: name, ...last } = rec;
+                const topic = topics.get(name);
+                if (topic) topic.last = last;
+                break;
+            }
+        }
+    }
+
+    // compacted topics are compacted once the whole log is read
+    private trim(topic: StoredTopic) {
+        if (topic.config.compacted) return;
+        const retain = topic.config.retention ?? this.opts.retain;
+        if (topic.messages.length > retain)
+            topic.messages.splice(0, topic.messages.length - retain);
+    }
+
+    private write(rec: LogRecord) {
+        if (this.fd === undefined) throw new Error("storage not loaded");
+        fs.writeSync(this.fd, this.encode(rec));
+        if (this.opts.fsync === "always") fs.fsyncSync(this.fd);
+        else this.dirty = true;
+    }
+
+    private sync() {
+        if (this.fd === undefined || !this.dirty) return;
+        fs.fsyncSync(this.fd);
+        this.dirty = false;
+    }
+
+    private encode(rec: LogRecord): string {
+        return JSON.stringify(rec) + "\n";
+    }
+}
@@ -1,67 +1,209 @@
+import type { z } from "zod";
+import type {
+    eventAckMessageSchema,
+    pingMessageSchema,
+    publishBatchMessageSchema,
+    publishMessageSchema,
+    replyMessageSchema,
+    requestMessageSchema,
+    sessionMessageSchema,
+    subscribeMessageSchema,
+    topicConfigSchema,
+    unsubscribeMessageSchema,
+} from "./schemas.js";
+import type { Limit } from "./ratelimit.js";
+
 export type UUID = string;
 
-export type ClientMessageType =
-    | "subscribe"
-    | "unsubscribe"
-    | "publish"
-    | "ping";
-export type ServerMessageType = "ack" | "event" | "error" | "pong" | "info";
+export type ClientMessageType = ClientMessage["type"];
+export type ServerMessageType =
+    | "ack"
+    | "event"
+    | "events"
+    | "error"
+    | "pong"
+    | "info"
+    | "response";
+
+export type DeliveryMode = "at_most_once" | "at_least_once";
+
+// what happens when a subscriber's bounded queue is full
+export type OverflowPolicy =
+    | "drop_oldest"
+    | "drop_newest"
+    | "disconnect" // with a SLOW_CONSUMER error
+    | "reject_publish"; // publishes fail with SLOW_CONSUMER past high water
 
 export interface PublishPayload {
     id: UUID;
     payload: unknown;
+    headers?: Record<string, string> | undefined; // not part of the payload
+    // consumer groups deliver messages with the same key to one member
+    key?: string | undefined;
 }
 
-export interface ClientMessageBase {
-    type: ClientMessageType;
-    request_id?: UUID;
+// a published message as retained by the broker (replay buffer, storage)
+export interface StoredMessage {
+    offset: number; // per-topic, monotonically increasing from 0
+    seq: number; // broker-wide publish order, orders replay across topics
+    ts: number; // publish time, epoch ms
+    expires_at?: number; // epoch ms (ttl_ms): not replayed or delivered after
+    message: PublishPayload;
+    dead_letter?: DeadLetter; // only in dead-letter topics
+    request?: RequestInfo; // published by a `request`
 }
 
-export interface SubscribeMessage extends ClientMessageBase {
-    type: "subscribe";
-    topic: string;
-    client_id: string;
-    last_n?: number;
+// where the responders to a request send their reply
+export interface RequestInfo {
+    reply_to: string; // the requester's private inbox
+    correlation_id: UUID; // the requester's request_id
 }
 
-export interface UnsubscribeMessage extends ClientMessageBase {
-    type: "unsubscribe";
-    topic: string;
-    client_id: string;
+export type DeadLetterReason = "dropped" | "expired" | "rejected";
+
+// where a dead-lettered message came from and why it did not get through
+export interface DeadLetter {
+    topic: string; // source topic, where a redrive publishes it again
+    reason: DeadLetterReason;
+    client_id: string; // the subscriber it missed, or that rejected it
+    ts: string; // when it was dead-lettered
+    offset?: number; // in the source topic; rejected publishes have none
 }
 
-export interface PublishMessage extends ClientMessageBase {
-    type: "publish";
-    topic: string;
+// a retained message as served by GET /topics/:name/messages
+export interface HistoryEntry {
+    message: PublishPayload;
+    offset: number;
+    ts: string;
+    dead_letter?: DeadLetter;
+}
+
+// outcome of redriving one dead letter, by its offset in the dead-letter
+// topic
+export type RedriveResult =
+    | { offset: number; topic: string; status: "ok"; new_offset: number }
+    | {
+          offset: number;
+          topic: string;
+          status: "error";
+          error: { code: ErrorCode; message: string };
+      };
+
+// a message held for delayed delivery, listed by GET /topics/:name/scheduled
+export interface ScheduledEntry {
+    id: UUID;
     message: PublishPayload;
+    deliver_at: string;
+    ttl_ms?: number;
 }
 
-export interface PingMessage extends ClientMessageBase {
-    type: "ping";
+// effective per-topic settings, as returned by GET /topics/:name
+export interface TopicConfig {
+    retention: number; // messages kept for replay
+    queue_size: number; // per-subscriber outbound queue bound
+    overflow: OverflowPolicy; // for subscriptions that do not name one
+    max_payload_bytes: number; // JSON-encoded message.payload
+    dead_letter: string | null; // topic that receives undeliverable messages
+    compacted: boolean; // retains the newest message per key
+}
+
+// the settings a topic overrides; the rest follow the broker defaults
+export type TopicConfigPatch = z.infer<typeof topicConfigSchema>;
+
+// a registered payload schema, listed by GET /topics/:name/schemas
+export interface SchemaVersion {
+    version: number; // from 1
+    schema: unknown; // JSON Schema
 }
 
+// inferred from the runtime schemas in schemas.ts
+export type SubscribeMessage = z.infer<typeof subscribeMessageSchema>;
+export type UnsubscribeMessage = z.infer<typeof unsubscribeMessageSchema>;
+export type PublishMessage = z.infer<typeof publishMessageSchema>;
+export type PublishBatchMessage = z.infer<typeof publishBatchMessageSchema>;
+export type RequestMessage = z.infer<typeof requestMessageSchema>;
+export type ReplyMessage = z.infer<typeof replyMessageSchema>;
+export type SessionMessage = z.infer<typeof sessionMessageSchema>;
+export type PingMessage = z.infer<typeof pingMessageSchema>;
+// acknowledges an event received on an at-least-once subscription
+export type EventAckMessage = z.infer<typeof eventAckMessageSchema>;
+
 export type ClientMessage =
     | SubscribeMessage
     | UnsubscribeMessage
     | PublishMessage
-    | PingMessage;
+    | PublishBatchMessage
+    | RequestMessage
+    | ReplyMessage
+    | SessionMessage
+    | PingMessage
+    | EventAckMessage;
 
 export interface ServerMessageBase {
     type: ServerMessageType;
-    request_id?: UUID;
+    request_id?: UUID | undefined; // echoed when the request carried one
     ts?: string;
 }
 
+export interface ReplayRange {
+    count: number;
+    from_offset?: number;
+    to_offset?: number;
+}
+
 export interface AckMessage extends ServerMessageBase {
     type: "ack";
     topic?: string;
     status: "ok";
+    offset?: number; // publish: offset assigned to the message
+    duplicate?: boolean; // publish: id seen recently, offset of the original
+    schedule_id?: UUID; // delayed publish: cancel with this id over REST
+    deliver_at?: string; // delayed publish: when it will be published
+    replay?: ReplayRange; // subscribe: what was actually replayed
+    topics?: string[]; // pattern subscribe: topics matched so far
+    session?: SessionInfo; // session: opened or resumed
+    results?: BatchResult[]; // publish_batch: one per message, in order
+}
+
+// outcome of one message of a publish_batch
+export type BatchResult =
+    | {
+          topic: string;
+          id: UUID;
+          status: "ok";
+          offset: number;
+          duplicate?: boolean;
+      }
+    | {
+          topic: string;
+          id: UUID;
+          status: "error";
+          error: ErrorMessage["error"];
+      };
+
+export interface SessionInfo {
+    client_id: string;
+    token: UUID; // resumes the session after a reconnect
+    resumed: boolean; // false: a new session, nothing was restored
+    subscriptions: string[]; // topics and patterns, restored on resume
 }
 
 export interface EventMessage extends ServerMessageBase {
     type: "event";
     topic: string;
     message: PublishPayload;
+    offset: number;
+    pattern?: string; // the pattern subscription this arrived through
+    delivery_id?: string; // only on at-least-once subscriptions
+    attempt?: number;
+    dead_letter?: DeadLetter;
+    request?: RequestInfo; // answer with a `reply`
+}
+
+// the events of one flush, for subscriptions with batch_ms
+export interface EventsMessage extends ServerMessageBase {
+    type: "events";
+    events: EventMessage[];
 }
 
 export type ErrorCode =
@@ -69,6 +211,8 @@ export type ErrorCode =
     | "TOPIC_NOT_FOUND"
     | "SLOW_CONSUMER"
     | "UNAUTHORIZED"
+    | "RATE_LIMITED"
+    | "TIMEOUT"
     | "INTERNAL";
 
 export interface ErrorMessage extends ServerMessageBase {
@@ -76,9 +220,18 @@ export interface ErrorMessage extends ServerMessageBase {
     error: {
         code: ErrorCode;
         message: string;
+        retry_after_ms?: number; // RATE_LIMITED: when a retry can succeed
     };
 }
 
+// the reply to a `request`, sent to the requester only; request_id is the
+// request's
+export interface ResponseMessage extends ServerMessageBase {
+    type: "response";
+    topic: string; // the request's
+    message: PublishPayload;
+}
+
 export interface PongMessage extends ServerMessageBase {
     type: "pong";
 }
@@ -87,20 +240,76 @@ export interface InfoMessage extends ServerMessageBase {
     type: "info";
     topic?: string;
     msg: string;
+    // offset_evicted: the requested resume point is no longer retained
+    requested_offset?: number;
+    earliest_offset?: number;
+    count?: number; // messages_dropped: lost since the last notice
 }
 
 export type ServerMessage =
     | AckMessage
     | EventMessage
+    | EventsMessage
     | ErrorMessage
     | PongMessage
-    | InfoMessage;
+    | InfoMessage
+    | ResponseMessage;
 
 export interface TopicStats {
     messages: number;
     subscribers: number;
     delivered: number;
     dropped: number;
+    acked: number;
+    redelivered: number;
+    in_flight: number;
+    filtered: number; // not queued because a subscription filter rejected it
+    rejected: number; // publishes refused by a reject_publish subscriber
+    slow_disconnects: number;
+    duplicates: number; // publishes dropped by message id deduplication
+    expired: number; // past their ttl before they could be delivered
+    scheduled: number; // delayed messages waiting to be published
+    dead_lettered: number; // republished on the topic's dead-letter topic
+    rate_limited: number; // publishes refused by a rate limit or quota
+    compacted_keys?: number; // compacted topics: keys currently retained
+    groups: Record<string, GroupStats>;
+}
+
+// a publishing client's usage today, served by GET /usage
+export interface ClientUsage {
+    client_id: string;
+    day: string; // UTC date the counters cover
+    messages: number;
+    bytes: number; // JSON-encoded payloads
+    rejected: number; // publishes refused by any rate limit or quota
+    limits: Limit; // the client's own limits
+    tokens?: number; // left in its rate bucket
+}
+
+// durable sessions on this node
+export interface SessionStats {
+    connected: number;
+    detached: number; // in their grace period
+    resumed: number; // reconnects that restored a session
+    expired: number; // ran out of grace before the client came back
+}
+
+// one broker node's totals, shared across a cluster for /stats
+export interface NodeStats {
+    connections: number;
+    topics: number;
+    subscribers: number;
+    messages: number;
+    delivered: number;
+    dropped: number;
+    ts: string; // when they were taken
+}
+
+export interface GroupStats {
+    members: number;
+    delivered: number;
+    dropped: number;
+    keys: number; // ordering keys bound to a member
 }
 
 export interface HealthStats {
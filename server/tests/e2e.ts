@@ -1,16 +1,40 @@
 /// <reference types="node" />
 import axios from "axios";
+import { execSync } from "child_process";
 import { io, Socket } from "socket.io-client";
+import WebSocket from "ws";
 
 const API = process.env.API_URL || "http://localhost:4000";
 const WS = process.env.WS_URL || "http://localhost:4000";
+const PEER_API = process.env.PEER_API_URL;
+const PEER_WS = process.env.PEER_WS_URL;
+// a shell command that restarts the server under test with STORAGE=file
+const RESTART_CMD = process.env.E2E_RESTART_CMD;
+// against a server with auth on: credentials for everything, the principal
+// they stand for, and a second principal limited to e2e-acl.* topics that
+// runs the access control checks
+const TOKEN = process.env.E2E_TOKEN;
+const PRINCIPAL = process.env.E2E_PRINCIPAL || "anonymous";
+const RESTRICTED_TOKEN = process.env.E2E_RESTRICTED_TOKEN;
+
+// kept free of the credentials below, for checks that need none
+const anonymous = axios.create();
+if (TOKEN) axios.defaults.headers.common.Authorization = `Bearer ${TOKEN}`;
 
 function delay(ms: number) {
     return new Promise((res) => setTimeout(res, ms));
 }
 
-async function withSocket<T>(fn: (s: Socket) => Promise<T>): Promise<T> {
-    const s = io(WS, { path: "/ws", transports: ["websocket"] });
+async function withSocket<T>(
+    fn: (s: Socket) => Promise<T>,
+    url = WS,
+    token = TOKEN
+): Promise<T> {
+    const s = io(url, {
+        path: "/ws",
+        transports: ["websocket"],
+        auth: token ? { token } : {},
+    });
     await new Promise<void>((resolve, reject) => {
         const t = setTimeout(() => reject(new Error("connect timeout")), 5000);
         s.on("connect", () => {
@@ -26,6 +50,23 @@ async function withSocket<T>(fn: (s: Socket) => Promise<T>): Promise<T> {
     }
 }
 
+// reads an SSE stream while `during` runs, returning the raw body
+async function readStream(
+    url: string,
+    headers: Record<string, string>,
+    during: () => Promise<void>
+): Promise<string> {
+    const res = await axios.get(url, { headers, responseType: "stream" });
+    let body = "";
+    res.data.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    try {
+        await during();
+    } finally {
+        res.data.destroy();
+    }
+    return body;
+}
+
 async function expectStatus<T>(p: Promise<T>, code: number) {
     try {
         await p;
@@ -135,6 +176,1047 @@ async function run() {
         if (replay.length !== 2) throw new Error("replay failed");
     });
 
+    // Resume from offset: ack reports the replayed range
+    const resumed: any[] = [];
+    let resumeAck: any;
+    await withSocket(async (so) => {
+        so.on("message", (m: any) => {
+            if (m.type === "event") resumed.push(m);
+            if (m.type === "ack" && m.request_id === "ro") resumeAck = m;
+        });
+        so.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "ro",
+            from_offset: 1,
+            request_id: "ro",
+        });
+        await delay(300);
+        if (
+            resumed.map((m) => m.offset).join() !== "1,2" ||
+            resumeAck?.replay?.from_offset !== 1 ||
+            resumeAck?.replay?.to_offset !== 2
+        )
+            throw new Error("resume from offset failed");
+    });
+
+    // At-least-once: events carry a delivery_id and are counted once acked
+    const acked: any[] = [];
+    await withSocket(async (sa) => {
+        sa.on("message", (m: any) => {
+            if (m.type !== "event") return;
+            acked.push(m);
+            sa.emit("message", {
+                type: "event_ack",
+                topic: "e2e",
+                delivery_id: m.delivery_id,
+            });
+        });
+        sa.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "alo",
+            last_n: 1,
+            delivery: "at_least_once",
+        });
+        await delay(300);
+        if (acked.length !== 1 || !acked[0].delivery_id)
+            throw new Error("at-least-once delivery failed");
+        const s = await axios.get(`${API}/stats`);
+        const t = s.data.topics.e2e;
+        if (t.acked < 1 || t.in_flight !== 0)
+            throw new Error("at-least-once stats wrong");
+    });
+
+    // Filtered subscription: only matching payloads are delivered
+    const filtered: any[] = [];
+    const filterErrors: any[] = [];
+    await withSocket(async (sf) => {
+        sf.on("message", (m: any) => {
+            if (m.type === "event") filtered.push(m);
+            if (m.type === "error") filterErrors.push(m);
+        });
+        sf.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "bad-filter",
+            filter: { field: "seq", op: "gt", value: "x" },
+        });
+        sf.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "filtered",
+            last_n: 3,
+            filter: { or: [{ field: "seq", op: "gte", value: 2 }] },
+        });
+        await delay(300);
+        if (filterErrors[0]?.error?.code !== "BAD_REQUEST")
+            throw new Error("invalid filter accepted");
+        if (filtered.length !== 1 || filtered[0].message.payload.seq !== 2)
+            throw new Error("filtered replay failed");
+        const s = await axios.get(`${API}/stats`);
+        if (!(s.data.topics.e2e.filtered >= 2))
+            throw new Error("filtered stats wrong");
+    });
+
+    // Consumer group: each message goes to exactly one member
+    const g1: any[] = [];
+    const g2: any[] = [];
+    await withSocket(async (sg1) => {
+        sg1.on("message", (m: any) => {
+            if (m.type === "event") g1.push(m);
+        });
+        sg1.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "g1",
+            group: "workers",
+        });
+        await withSocket(async (sg2) => {
+            sg2.on("message", (m: any) => {
+                if (m.type === "event") g2.push(m);
+            });
+            sg2.emit("message", {
+                type: "subscribe",
+                topic: "e2e",
+                client_id: "g2",
+                group: "workers",
+            });
+            await delay(100);
+            for (let i = 0; i < 4; i++) {
+                sg1.emit("message", {
+                    type: "publish",
+                    topic: "e2e",
+                    message: { id: `g${i}`, payload: { seq: i } },
+                });
+            }
+            await delay(300);
+            if (g1.length + g2.length !== 4 || !g1.length || !g2.length)
+                throw new Error("consumer group delivery failed");
+            const s = await axios.get(`${API}/stats`);
+            const w = s.data.topics.e2e.groups?.workers;
+            if (w?.members !== 2 || w?.delivered !== 4)
+                throw new Error("consumer group stats wrong");
+        });
+    });
+
+    // Headers and ordering keys: a key sticks to one group member, headers
+    // survive replay and can be filtered on
+    await axios.delete(`${API}/topics/keyed`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "keyed" });
+    const byMember: any[][] = [[], []];
+    await withSocket(async (sk1) => {
+        await withSocket(async (sk2) => {
+            [sk1, sk2].forEach((s, i) => {
+                s.on("message", (m: any) => {
+                    if (m.type === "event") byMember[i]?.push(m);
+                });
+                s.emit("message", {
+                    type: "subscribe",
+                    topic: "keyed",
+                    client_id: `k${i}`,
+                    group: "keyed-workers",
+                });
+            });
+            await delay(100);
+            for (let i = 0; i < 20; i++) {
+                // in pairs, so round-robin alone would split a key
+                const [key, tenant] = i % 4 > 1
+                    ? ["cust-b", "umbrella"]
+                    : ["cust-a", "acme"];
+                sk1.emit("message", {
+                    type: "publish",
+                    topic: "keyed",
+                    message: {
+                        id: `k-${i}`,
+                        payload: { seq: i },
+                        headers: { tenant },
+                        key,
+                    },
+                });
+            }
+            await delay(300);
+            for (const key of ["cust-a", "cust-b"]) {
+                const holders = byMember.filter((evs) =>
+                    evs.some((e) => e.message.key === key)
+                );
+                const seqs = holders[0]
+                    ?.filter((e) => e.message.key === key)
+                    .map((e) => e.message.payload.seq);
+                if (holders.length !== 1 || seqs?.length !== 10)
+                    throw new Error(`key ${key} split across members`);
+                if (seqs.some((n: number, i: number) => i && n < seqs[i - 1]))
+                    throw new Error(`key ${key} delivered out of order`);
+            }
+            const s = await axios.get(`${API}/stats`);
+            if (s.data.topics.keyed.groups?.["keyed-workers"]?.keys !== 2)
+                throw new Error("group keys stats wrong");
+        });
+    });
+    const tenants: any[] = [];
+    const headerErrors: any[] = [];
+    await withSocket(async (sh) => {
+        sh.on("message", (m: any) => {
+            if (m.type === "event") tenants.push(m);
+            if (m.type === "error") headerErrors.push(m);
+        });
+        sh.emit("message", {
+            type: "subscribe",
+            topic: "keyed",
+            client_id: "bad-header",
+            filter: { field: "seq", header: "tenant", op: "exists" },
+        });
+        sh.emit("message", {
+            type: "subscribe",
+            topic: "keyed",
+            client_id: "acme-only",
+            last_n: 10,
+            filter: { header: "tenant", op: "eq", value: "acme" },
+        });
+        await delay(300);
+    });
+    if (headerErrors[0]?.error?.code !== "BAD_REQUEST")
+        throw new Error("condition with field and header accepted");
+    if (
+        tenants.length !== 4 ||
+        tenants.some((e) => e.message.headers?.tenant !== "acme")
+    )
+        throw new Error("header filter on replay failed");
+
+    // Wildcard subscription: replay across matches, attach new topics
+    const wildTopics = ["e2e.us.created", "e2e.eu.created", "e2e.apac.created"];
+    for (const name of wildTopics)
+        await axios.delete(`${API}/topics/${name}`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "e2e.eu.created" });
+    await axios.post(`${API}/topics`, { name: "e2e.us.created" });
+    const wild: any[] = [];
+    await withSocket(async (sw) => {
+        sw.on("message", (m: any) => {
+            if (m.type === "event") wild.push(m);
+        });
+        for (const [i, name] of wildTopics.slice(0, 2).entries())
+            sw.emit("message", {
+                type: "publish",
+                topic: name,
+                message: { id: `w${i}`, payload: { seq: i } },
+            });
+        await delay(100);
+        sw.emit("message", {
+            type: "subscribe",
+            topic: "e2e.*.created",
+            client_id: "wild",
+            last_n: 2,
+        });
+        await delay(100);
+        await axios.post(`${API}/topics`, { name: "e2e.apac.created" });
+        sw.emit("message", {
+            type: "publish",
+            topic: "e2e.apac.created",
+            message: { id: "w2", payload: { seq: 2 } },
+        });
+        await delay(300);
+        if (wild.map((m) => m.topic).join() !== wildTopics.join())
+            throw new Error("wildcard subscription failed");
+    });
+
+    // an exact subscription displaces the pattern on that topic until it
+    // is unsubscribed, then the pattern delivers again
+    await axios.delete(`${API}/topics/pp.a`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "pp.a" });
+    const handedBack: any[] = [];
+    await withSocket(async (sp) => {
+        sp.on("message", (m: any) => {
+            if (m.type === "event") handedBack.push(m);
+        });
+        for (const topic of ["pp.*", "pp.a"])
+            sp.emit("message", { type: "subscribe", topic, client_id: "pp" });
+        sp.emit("message", {
+            type: "unsubscribe",
+            topic: "pp.a",
+            client_id: "pp",
+        });
+        await delay(100);
+        await axios.post(`${API}/topics/pp.a/messages`, {
+            id: "pp-1",
+            payload: {},
+        });
+        await delay(200);
+    });
+    if (handedBack[0]?.pattern !== "pp.*")
+        throw new Error("pattern not re-attached after exact unsubscribe");
+    await axios.delete(`${API}/topics/pp.a`);
+
+    // Pathological patterns: any number of `#` match a deep topic at once
+    const deep = Array.from({ length: 24 }, (_, i) => `d${i}`).join(".");
+    await axios.delete(`${API}/topics/${deep}`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: deep });
+    const deepReplies: any[] = [];
+    const deepStart = Date.now();
+    await withSocket(async (sd) => {
+        sd.on("message", (m: any) => {
+            if (m.type === "ack" || m.type === "error") deepReplies.push(m);
+        });
+        sd.emit("message", {
+            type: "subscribe",
+            topic: "#.#.#.#.#.#.#.#.#.#.#.#.zz",
+            client_id: "deep-1",
+            request_id: "deep-many",
+        });
+        sd.emit("message", {
+            type: "subscribe",
+            topic: "#.#.#.#.zz",
+            client_id: "deep-2",
+            request_id: "deep-four",
+        });
+        await delay(200);
+    });
+    const deepById = (id: string) =>
+        deepReplies.find((m) => m.request_id === id);
+    if (
+        deepById("deep-many")?.type !== "ack" ||
+        deepById("deep-four")?.type !== "ack" ||
+        Date.now() - deepStart > 2000
+    )
+        throw new Error("# pattern not matched promptly");
+    await axios.delete(`${API}/topics/${deep}`);
+
+    // Slow consumers: at-least-once subscribers that stop acking fill their
+    // queue (100 in flight + 512 queued) and hit their overflow policy
+    await axios.delete(`${API}/topics/slow`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "slow" });
+    const publishSlow = (count: number, errors: any[]) =>
+        withSocket(async (sp) => {
+            sp.on("message", (m: any) => {
+                if (m.type === "error") errors.push(m);
+            });
+            for (let i = 0; i < count; i++)
+                sp.emit("message", {
+                    type: "publish",
+                    topic: "slow",
+                    message: { id: `slow-${count}-${i}`, payload: { seq: i } },
+                });
+            await delay(500);
+        });
+    const slow = { infos: [] as any[], ids: [] as any[] };
+    await withSocket(async (sdrop) => {
+        sdrop.on("message", (m: any) => {
+            if (m.type === "event") slow.ids.push(m.delivery_id);
+            if (m.type === "info") slow.infos.push(m);
+        });
+        sdrop.emit("message", {
+            type: "subscribe",
+            topic: "slow",
+            client_id: "dropper",
+            delivery: "at_least_once",
+        });
+        await withSocket(async (sdisc) => {
+            sdisc.emit("message", {
+                type: "subscribe",
+                topic: "slow",
+                client_id: "disconnector",
+                delivery: "at_least_once",
+                overflow: "disconnect",
+            });
+            await delay(100);
+            await publishSlow(700, []);
+        });
+        for (const id of slow.ids.splice(0))
+            sdrop.emit("message", {
+                type: "event_ack",
+                topic: "slow",
+                delivery_id: id,
+            });
+        await delay(300);
+        const notice = slow.infos.find((i) => i.msg === "messages_dropped");
+        if (notice?.count !== 88)
+            throw new Error("missing messages_dropped notice");
+    });
+    const rejected: any[] = [];
+    await withSocket(async (srej) => {
+        srej.emit("message", {
+            type: "subscribe",
+            topic: "slow",
+            client_id: "rejecter",
+            delivery: "at_least_once",
+            overflow: "reject_publish",
+        });
+        await delay(100);
+        await publishSlow(600, rejected);
+    });
+    if (!rejected.find((e) => e.error?.code === "SLOW_CONSUMER"))
+        throw new Error("reject_publish did not push back");
+    const slowStats = await axios.get(`${API}/stats`);
+    if (slowStats.data.topics.slow.slow_disconnects !== 1)
+        throw new Error("slow consumer was not disconnected");
+
+    // HTTP publish (single and batch) reaches socket subscribers and the
+    // replay buffer is readable over HTTP
+    await axios.delete(`${API}/topics/http`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "http" });
+    const httpEvents: any[] = [];
+    await withSocket(async (sh) => {
+        sh.on("message", (m: any) => {
+            if (m.type === "event") httpEvents.push(m);
+        });
+        sh.emit("message", {
+            type: "subscribe",
+            topic: "http",
+            client_id: "h",
+        });
+        await delay(100);
+        const one = await axios.post(`${API}/topics/http/messages`, {
+            id: "h-0",
+            payload: { n: 0 },
+        });
+        if (one.status !== 201 || one.data.offset !== 0)
+            throw new Error("http publish ack mismatch");
+        const many = await axios.post(`${API}/topics/http/messages`, [
+            { id: "h-1", payload: { n: 1 } },
+            { id: "h-2", payload: { n: 2 } },
+        ]);
+        if (many.data.acks.map((a: any) => a.offset).join() !== "1,2")
+            throw new Error("http batch ack mismatch");
+        await delay(200);
+        if (httpEvents.length !== 3)
+            throw new Error("http publishes not delivered");
+    });
+    await expectStatus(
+        axios.post(`${API}/topics/http/messages`, { payload: {} }),
+        400
+    );
+    await expectStatus(
+        axios.post(`${API}/topics/missing/messages`, { id: "x", payload: {} }),
+        404
+    );
+    const history = await axios.get(`${API}/topics/http/messages?last_n=2`);
+    const ids = history.data.messages.map((m: any) => m.message.id);
+    if (ids.join() !== "h-1,h-2")
+        throw new Error("http history mismatch");
+    await expectStatus(axios.get(`${API}/topics/http/messages?last_n=x`), 400);
+
+    // a retried publish is acked with the original offset, not re-delivered
+    const retry = await axios.post(`${API}/topics/http/messages`, {
+        id: "h-1",
+        payload: { n: 1 },
+    });
+    if (!retry.data.duplicate || retry.data.offset !== 1)
+        throw new Error("duplicate publish not detected");
+    const afterRetry = await axios.get(`${API}/topics/http/messages`);
+    if (afterRetry.data.messages.length !== 3)
+        throw new Error("duplicate publish was retained");
+    const dupStats = await axios.get(`${API}/stats`);
+    if (dupStats.data.topics.http.duplicates !== 1)
+        throw new Error("duplicate not counted");
+
+    // SSE: last_n replay, live events, and resume with Last-Event-ID
+    await axios.delete(`${API}/topics/sse`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "sse" });
+    for (let i = 0; i < 3; i++)
+        await axios.post(`${API}/topics/sse/messages`, {
+            id: `sse-${i}`,
+            payload: { n: i },
+        });
+    const sseIds = (body: string) =>
+        Array.from(body.matchAll(/^id: (\d+)$/gm), (m) => m[1]).join();
+    const sseLive = await readStream(
+        `${API}/topics/sse/stream?last_n=2`,
+        {},
+        async () => {
+            await delay(100);
+            const stats = await axios.get(`${API}/stats`);
+            if (stats.data.topics.sse.subscribers !== 1)
+                throw new Error("sse subscriber not counted");
+            await axios.post(`${API}/topics/sse/messages`, {
+                id: "sse-3",
+                payload: { n: 3 },
+            });
+            await delay(100);
+        }
+    );
+    if (sseIds(sseLive) !== "1,2,3") throw new Error("sse stream mismatch");
+    const sseResumed = await readStream(
+        `${API}/topics/sse/stream`,
+        { "Last-Event-ID": "1" },
+        () => delay(200)
+    );
+    if (sseIds(sseResumed) !== "2,3") throw new Error("sse resume mismatch");
+    await expectStatus(axios.get(`${API}/topics/missing/stream`), 404);
+
+    // Raw WebSocket: same protocol, shares topics with socket.io clients
+    await axios.delete(`${API}/topics/raw`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "raw" });
+    const rawQuery = TOKEN ? `?token=${encodeURIComponent(TOKEN)}` : "";
+    const raw = new WebSocket(`${WS.replace(/^http/, "ws")}/raw${rawQuery}`);
+    const rawMsgs: any[] = [];
+    raw.on("message", (data) => rawMsgs.push(JSON.parse(String(data))));
+    await new Promise((res, rej) => raw.once("open", res).once("error", rej));
+    raw.send(
+        JSON.stringify({
+            type: "subscribe",
+            topic: "raw",
+            client_id: "raw",
+            request_id: "raw-sub",
+        })
+    );
+    raw.send("not json");
+    raw.send(JSON.stringify({ type: "ping", request_id: "raw-ping" }));
+    await delay(100);
+    await withSocket(async (sp) => {
+        sp.emit("message", {
+            type: "publish",
+            topic: "raw",
+            message: { id: "raw-0", payload: { n: 0 } },
+        });
+        await delay(200);
+    });
+    raw.close();
+    if (!rawMsgs.find((m) => m.type === "ack" && m.request_id === "raw-sub"))
+        throw new Error("raw subscribe not acked");
+    if (!rawMsgs.find((m) => m.error?.code === "BAD_REQUEST"))
+        throw new Error("raw invalid JSON not rejected");
+    if (!rawMsgs.find((m) => m.type === "pong" && m.request_id === "raw-ping"))
+        throw new Error("raw ping not answered");
+    if (!rawMsgs.find((m) => m.type === "event" && m.message.id === "raw-0"))
+        throw new Error("raw event not delivered");
+
+    // Malformed messages: detailed BAD_REQUEST, then disconnect past the limit
+    const invalid: any[] = [];
+    let kicked = false;
+    await withSocket(async (sv) => {
+        sv.on("message", (m: any) => {
+            if (m.type === "error") invalid.push(m);
+        });
+        sv.on("disconnect", () => (kicked = true));
+        sv.emit("message", {
+            type: "publish",
+            topic: "e2e",
+            message: { payload: {} },
+            request_id: "no-id",
+        });
+        sv.emit("message", {
+            type: "subscribe",
+            topic: "e2e",
+            client_id: "v",
+            last_n: "5",
+        });
+        sv.emit("message", { type: "unsubscribe", topic: "bad name!" });
+        await delay(200);
+        const noId = invalid.find((e) => e.request_id === "no-id");
+        if (!noId?.error.message.includes("at message.id"))
+            throw new Error("missing message.id not reported");
+        if (!invalid.find((e) => e.error.message.includes("at last_n")))
+            throw new Error("non-numeric last_n not reported");
+        if (invalid.length !== 3) throw new Error("invalid messages accepted");
+        for (let i = 0; i < 10; i++) sv.emit("message", { type: "nope" });
+        await delay(200);
+        if (!kicked) throw new Error("malformed flood not disconnected");
+    });
+
+    // TTL: expired messages are not replayed; delayed publishes are held
+    // until due and can be listed and cancelled over REST
+    await axios.delete(`${API}/topics/timing`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "timing" });
+    const timing: any[] = [];
+    await withSocket(async (st) => {
+        st.on("message", (m: any) => timing.push(m));
+        st.emit("message", {
+            type: "publish",
+            topic: "timing",
+            message: { id: "short-lived", payload: {} },
+            ttl_ms: 50,
+        });
+        st.emit("message", {
+            type: "publish",
+            topic: "timing",
+            message: { id: "later", payload: {} },
+            delay_ms: 400,
+            request_id: "later",
+        });
+        st.emit("message", {
+            type: "publish",
+            topic: "timing",
+            message: { id: "never", payload: {} },
+            deliver_at: new Date(Date.now() + 60000).toISOString(),
+            request_id: "never",
+        });
+        await delay(150);
+        const listed = await axios.get(`${API}/topics/timing/scheduled`);
+        if (listed.data.scheduled.length !== 2)
+            throw new Error("scheduled messages not listed");
+        const never = timing.find((m) => m.request_id === "never");
+        await axios.delete(
+            `${API}/topics/timing/scheduled/${never.schedule_id}`
+        );
+        const kept = await axios.get(`${API}/topics/timing/messages`);
+        if (kept.data.messages.length !== 0)
+            throw new Error("expired message still retained");
+        st.emit("message", {
+            type: "subscribe",
+            topic: "timing",
+            client_id: "timing",
+        });
+        await delay(500);
+    });
+    const timedIds = timing
+        .filter((m) => m.type === "event")
+        .map((m) => m.message.id);
+    if (timedIds.join() !== "later")
+        throw new Error("delayed publish not delivered once due");
+    const timingStats = await axios.get(`${API}/stats`);
+    if (timingStats.data.topics.timing.scheduled !== 0)
+        throw new Error("scheduled count not updated");
+
+    // Payload schemas: enforced on publish, new versions must be compatible
+    await axios.delete(`${API}/topics/typed`).catch(() => {});
+    await expectStatus(
+        axios.post(`${API}/topics`, {
+            name: "typed",
+            schema: { type: "nope" },
+        }),
+        400
+    );
+    await axios.post(`${API}/topics`, {
+        name: "typed",
+        schema: {
+            type: "object",
+            required: ["amount"],
+            properties: { amount: { type: "number" } },
+        },
+    });
+    const typedUrl = `${API}/topics/typed/messages`;
+    await axios.post(typedUrl, { id: "t-0", payload: { amount: 1 } });
+    try {
+        await axios.post(typedUrl, { id: "t-1", payload: { amount: "1" } });
+        throw new Error("non-conforming payload accepted");
+    } catch (e: any) {
+        if (!e.response?.data?.message?.includes("at payload.amount"))
+            throw e;
+    }
+    await expectStatus(
+        axios.post(`${API}/topics/typed/schemas`, {
+            schema: {
+                type: "object",
+                required: ["amount", "currency"],
+                properties: { amount: { type: "number" } },
+            },
+        }),
+        400
+    );
+    const v2 = await axios.post(`${API}/topics/typed/schemas`, {
+        schema: {
+            type: "object",
+            required: ["amount"],
+            properties: {
+                amount: { type: "number" },
+                currency: { type: "string" },
+            },
+        },
+    });
+    if (v2.data.version !== 2) throw new Error("schema version not added");
+    await expectStatus(
+        axios.post(typedUrl, {
+            id: "t-2",
+            payload: { amount: 2, currency: 3 },
+        }),
+        400
+    );
+    const versions = await axios.get(`${API}/topics/typed/schemas`);
+    if (versions.data.versions.length !== 2)
+        throw new Error("schema versions not listed");
+
+    // Per-topic config: set on create, resized live
+    await axios.delete(`${API}/topics/tuned`).catch(() => {});
+    await expectStatus(
+        axios.post(`${API}/topics`, {
+            name: "tuned",
+            config: { retention: -1 },
+        }),
+        400
+    );
+    await axios.post(`${API}/topics`, {
+        name: "tuned",
+        config: { retention: 2, max_payload_bytes: 64 },
+    });
+    const tunedUrl = `${API}/topics/tuned/messages`;
+    await axios.post(
+        tunedUrl,
+        [1, 2, 3].map((i) => ({ id: `tu-${i}`, payload: { i } }))
+    );
+    await expectStatus(
+        axios.post(tunedUrl, { id: "tu-big", payload: "x".repeat(100) }),
+        400
+    );
+    const tunedHistory = await axios.get(tunedUrl);
+    if (tunedHistory.data.messages.length !== 2)
+        throw new Error("per-topic retention not applied");
+    await axios.patch(`${API}/topics/tuned`, { config: { retention: 5 } });
+    await axios.post(
+        tunedUrl,
+        [4, 5].map((i) => ({ id: `tu-${i}`, payload: { i } }))
+    );
+    const grown = await axios.get(tunedUrl);
+    if (grown.data.messages.length !== 4)
+        throw new Error("growing retention lost messages");
+    await axios.patch(`${API}/topics/tuned`, { config: { retention: 1 } });
+    const shrunk = await axios.get(tunedUrl);
+    if (shrunk.data.messages.map((m: any) => m.message.id).join() !== "tu-5")
+        throw new Error("shrinking retention did not keep the newest");
+    const tuned = await axios.get(`${API}/topics/tuned`);
+    if (
+        tuned.data.config.retention !== 1 ||
+        tuned.data.config.max_payload_bytes !== 64 ||
+        typeof tuned.data.config.queue_size !== "number"
+    )
+        throw new Error("effective config not reported");
+    await expectStatus(
+        axios.patch(`${API}/topics/missing`, { config: {} }),
+        404
+    );
+    // no payload limit beyond what a socket frame carries
+    await expectStatus(
+        axios.patch(`${API}/topics/tuned`, {
+            config: { max_payload_bytes: 5_000_000 },
+        }),
+        400
+    );
+    // HTTP bodies as big as the limit are accepted, body errors are JSON
+    await axios.patch(`${API}/topics/tuned`, {
+        config: { max_payload_bytes: 1_000_000 },
+    });
+    await axios.post(tunedUrl, { id: "tu-150k", payload: "x".repeat(150e3) });
+    const malformed = await axios
+        .post(tunedUrl, '{"id":', {
+            headers: { "Content-Type": "application/json" },
+        })
+        .catch((e) => e.response);
+    if (malformed?.status !== 400 || malformed.data.error !== "BAD_REQUEST")
+        throw new Error("malformed body not answered with BAD_REQUEST");
+
+    // Dead-letter topic: overflow drops are republished there and can be
+    // redriven to the source
+    for (const t of ["fragile", "dead"])
+        await axios.delete(`${API}/topics/${t}`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "dead" });
+    await axios.post(`${API}/topics`, {
+        name: "fragile",
+        config: { queue_size: 2, dead_letter: "dead" },
+    });
+    await expectStatus(
+        axios.patch(`${API}/topics/fragile`, {
+            config: { dead_letter: "fragile" },
+        }),
+        400
+    );
+    await withSocket(async (sd) => {
+        sd.emit("message", {
+            type: "subscribe",
+            topic: "fragile",
+            client_id: "never-acks",
+            delivery: "at_least_once",
+            request_id: "dl",
+        });
+        await delay(100);
+        // 100 go in flight unacked, 2 fit the queue, 3 are dropped
+        await axios.post(
+            `${API}/topics/fragile/messages`,
+            Array.from({ length: 105 }, (_, i) => ({
+                id: `fr-${i}`,
+                payload: { i },
+            }))
+        );
+    });
+    const dead = await axios.get(`${API}/topics/dead/messages`);
+    const letters = dead.data.messages;
+    if (
+        letters.length !== 3 ||
+        letters[0].dead_letter?.topic !== "fragile" ||
+        letters[0].dead_letter?.reason !== "dropped" ||
+        letters[0].dead_letter?.client_id !== "never-acks" ||
+        letters[0].message.id !== "fr-100"
+    )
+        throw new Error("dropped messages not dead-lettered");
+    const redriven = await axios.post(`${API}/topics/dead/redrive`, {
+        offsets: [letters[0].offset],
+    });
+    const [driven] = redriven.data.results;
+    if (redriven.data.results.length !== 1 || driven?.new_offset !== 105)
+        throw new Error("dead letter not redriven");
+    const fragileStats = await axios.get(`${API}/stats`);
+    if (fragileStats.data.topics.fragile.dead_lettered !== 3)
+        throw new Error("dead letters not counted");
+
+    // Usage per publishing client; limits are checked when the server runs
+    // with RATE_LIMITS giving client "e2e-limited" a rate. With auth on the
+    // principal is the client, whatever X-Client-Id says.
+    const usageClient = TOKEN ? PRINCIPAL : "e2e-usage";
+    await axios.post(
+        `${API}/topics/e2e/messages`,
+        { id: "usage-1", payload: { n: 1 } },
+        { headers: { "X-Client-Id": "e2e-usage" } }
+    );
+    const usage = await axios.get(`${API}/usage/${usageClient}`);
+    if (usage.data.messages < 1 || usage.data.bytes < 1)
+        throw new Error("client usage not recorded");
+    const allUsage = await axios.get(`${API}/usage`);
+    if (!allUsage.data.clients.some((c: any) => c.client_id === usageClient))
+        throw new Error("client missing from usage list");
+    const limited = await axios.get(`${API}/usage/e2e-limited`);
+    if (limited.data.limits.rate !== undefined) {
+        const burst = limited.data.limits.burst ?? 1;
+        const limitErrors: any[] = [];
+        await withSocket(async (sl) => {
+            sl.on("message", (m: any) => {
+                if (m.type === "error") limitErrors.push(m);
+            });
+            for (let i = 0; i <= burst; i++)
+                sl.emit("message", {
+                    type: "publish",
+                    topic: "e2e",
+                    client_id: "e2e-limited",
+                    message: { id: `lim-${i}`, payload: {} },
+                    request_id: `lim-${i}`,
+                });
+            await delay(200);
+        });
+        const over = limitErrors[0]?.error;
+        if (over?.code !== "RATE_LIMITED" || !(over.retry_after_ms > 0))
+            throw new Error("over-limit publish not refused");
+        try {
+            await axios.post(
+                `${API}/topics/e2e/messages`,
+                { id: "lim-http", payload: {} },
+                { headers: { "X-Client-Id": "e2e-limited" } }
+            );
+            throw new Error("over-limit HTTP publish accepted");
+        } catch (e: any) {
+            const res = e.response;
+            if (res?.status !== 429 || !res.headers["retry-after"]) throw e;
+        }
+    }
+
+    // Durable session: subscriptions and undelivered events survive a
+    // reconnect with the session token
+    await axios.delete(`${API}/topics/durable`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "durable" });
+    const firstLife: any[] = [];
+    const token = await withSocket(async (sa) => {
+        sa.on("message", (m: any) => firstLife.push(m));
+        sa.emit("message", { type: "session", client_id: "mobile-1" });
+        await delay(100);
+        sa.emit("message", {
+            type: "subscribe",
+            topic: "durable",
+            client_id: "mobile-1",
+            delivery: "at_least_once",
+        });
+        await delay(100);
+        await axios.post(`${API}/topics/durable/messages`, {
+            id: "d-1",
+            payload: {},
+        });
+        await delay(100);
+        return firstLife.find((m) => m.session)?.session.token;
+    });
+    if (!firstLife.some((m) => m.type === "event"))
+        throw new Error("session subscriber got no event");
+    await delay(100);
+    await axios.post(`${API}/topics/durable/messages`, {
+        id: "d-2",
+        payload: {},
+    });
+    const secondLife: any[] = [];
+    await withSocket(async (sb) => {
+        sb.on("message", (m: any) => secondLife.push(m));
+        sb.emit("message", {
+            type: "session",
+            client_id: "mobile-1",
+            token: "not-the-token",
+            request_id: "bad-token",
+        });
+        sb.emit("message", { type: "session", client_id: "mobile-1", token });
+        await delay(300);
+    });
+    const badToken = secondLife.find((m) => m.request_id === "bad-token");
+    if (badToken?.error?.code !== "UNAUTHORIZED")
+        throw new Error("session resumed with a wrong token");
+    const restored = secondLife.find((m) => m.session)?.session;
+    if (!restored?.resumed || restored.subscriptions[0] !== "durable")
+        throw new Error("session not resumed");
+    const redelivered = secondLife
+        .filter((m) => m.type === "event")
+        .map((m) => m.message.id);
+    if (redelivered.join() !== "d-1,d-2")
+        throw new Error("held events not delivered: " + redelivered.join());
+    const sessionStats = await axios.get(`${API}/stats`);
+    if (sessionStats.data.sessions.resumed < 1)
+        throw new Error("resumed session not counted");
+
+    // Batch publish: one frame, one ack with a result per message; a
+    // batch_ms subscriber gets the burst as one `events` frame
+    await axios.delete(`${API}/topics/batched`).catch(() => {});
+    await axios.post(`${API}/topics`, { name: "batched" });
+    const frames: any[] = [];
+    let batchAck: any;
+    await withSocket(async (sbatch) => {
+        sbatch.on("message", (m: any) => {
+            if (m.type === "events" || m.type === "event") frames.push(m);
+        });
+        sbatch.emit("message", {
+            type: "subscribe",
+            topic: "batched",
+            client_id: "batcher",
+            batch_ms: 50,
+        });
+        await delay(100);
+        await withSocket(async (sp) => {
+            sp.on("message", (m: any) => {
+                if (m.request_id === "pb") batchAck = m;
+            });
+            sp.emit("message", {
+                type: "publish_batch",
+                request_id: "pb",
+                messages: [
+                    { topic: "batched", message: { id: "b-1", payload: 1 } },
+                    { topic: "no-such", message: { id: "b-2", payload: 2 } },
+                    { topic: "batched", message: { id: "b-3", payload: 3 } },
+                ],
+            });
+            await delay(300);
+        });
+    });
+    const outcomes = batchAck?.results?.map((r: any) =>
+        r.status === "ok" ? r.offset : r.error.code
+    );
+    if (outcomes?.join() !== "0,TOPIC_NOT_FOUND,1")
+        throw new Error("batch results wrong: " + outcomes);
+    if (
+        frames.length !== 1 ||
+        frames[0].type !== "events" ||
+        frames[0].events.map((e: any) => e.message.id).join() !== "b-1,b-3"
+    )
+        throw new Error("batched events frame missing");
+
+    // Request/reply: the reply reaches only the requester; a request
+    // nobody answers times out
+    for (const name of ["rpc", "rpc-idle"]) {
+        await axios.delete(`${API}/topics/${name}`).catch(() => {});
+        await axios.post(`${API}/topics`, { name });
+    }
+    const requester: any[] = [];
+    const bystander: any[] = [];
+    const lateReply: any[] = [];
+    await withSocket(async (responder) => {
+        responder.on("message", (m: any) => {
+            if (m.type === "event" && m.request) {
+                const reply = {
+                    type: "reply",
+                    reply_to: m.request.reply_to,
+                    correlation_id: m.request.correlation_id,
+                    message: { id: "pong-1", payload: { echo: m.message } },
+                };
+                responder.emit("message", reply);
+                // a second answer finds the request gone
+                responder.emit("message", { ...reply, request_id: "late" });
+            }
+            if (m.request_id === "late") lateReply.push(m);
+        });
+        responder.emit("message", {
+            type: "subscribe",
+            topic: "rpc",
+            client_id: "responder",
+        });
+        await withSocket(async (other) => {
+            other.on("message", (m: any) => bystander.push(m));
+            other.emit("message", {
+                type: "subscribe",
+                topic: "rpc",
+                client_id: "bystander",
+            });
+            await delay(100);
+            await withSocket(async (req) => {
+                req.on("message", (m: any) => requester.push(m));
+                req.emit("message", {
+                    type: "request",
+                    topic: "rpc",
+                    message: { id: "ping-1", payload: { q: 1 } },
+                    request_id: "call-1",
+                });
+                req.emit("message", {
+                    type: "request",
+                    topic: "rpc-idle",
+                    message: { id: "ping-2", payload: {} },
+                    request_id: "call-2",
+                    timeout_ms: 200,
+                });
+                await delay(500);
+            });
+        });
+    });
+    const response = requester.find((m) => m.request_id === "call-1");
+    if (response?.type !== "response" || response.message.id !== "pong-1")
+        throw new Error("no response to request");
+    if (bystander.some((m) => m.type === "response"))
+        throw new Error("response leaked to another client");
+    const timedOut = requester.find((m) => m.request_id === "call-2");
+    if (timedOut?.error?.code !== "TIMEOUT")
+        throw new Error("unanswered request did not time out");
+    if (lateReply[0]?.error?.code !== "BAD_REQUEST")
+        throw new Error("second reply was accepted");
+
+    // Compacted topic: a snapshot subscribe gets the newest message per key,
+    // tombstoned keys left out
+    await axios.delete(`${API}/topics/prices`).catch(() => {});
+    await axios.post(`${API}/topics`, {
+        name: "prices",
+        config: { compacted: true },
+    });
+    await axios.post(`${API}/topics/prices/messages`, [
+        { id: "p-1", key: "AAPL", payload: { price: 1 } },
+        { id: "p-2", key: "MSFT", payload: { price: 1 } },
+        { id: "p-3", key: "AAPL", payload: { price: 2 } },
+        { id: "p-4", key: "MSFT", payload: null },
+        { id: "p-5", key: "GOOG", payload: { price: 1 } },
+    ]);
+    await expectStatus(
+        axios.post(`${API}/topics/prices/messages`, { id: "p-6", payload: 1 }),
+        400
+    );
+    await expectStatus(
+        axios.patch(`${API}/topics/prices`, {
+            config: { compacted: false },
+        }),
+        400
+    );
+    const snapshot: any[] = [];
+    let snapshotAck: any;
+    await withSocket(async (sc) => {
+        sc.on("message", (m: any) => {
+            if (m.type === "event") snapshot.push(m);
+            if (m.type === "ack") snapshotAck = m;
+        });
+        sc.emit("message", {
+            type: "subscribe",
+            topic: "prices",
+            client_id: "ticker",
+            snapshot: true,
+        });
+        await delay(200);
+        await axios.post(`${API}/topics/prices/messages`, {
+            id: "p-7",
+            key: "AAPL",
+            payload: { price: 3 },
+        });
+        await delay(200);
+    });
+    if (
+        snapshot.map((e) => e.message.id).join() !== "p-3,p-5,p-7" ||
+        snapshotAck?.replay?.count !== 2
+    )
+        throw new Error("compacted snapshot wrong");
+    const pricesStats = await axios.get(`${API}/stats`);
+    if (pricesStats.data.topics.prices.compacted_keys !== 2)
+        throw new Error("compacted_keys stats wrong");
+
     // Publish to missing topic -> error
     const errors: any[] = [];
     await withSocket(async (se) => {
@@ -223,6 +1305,323 @@ async function run() {
     if (!stats.data?.topics?.bp) throw new Error("stats missing bp");
     console.log("bp dropped:", stats.data.topics.bp.dropped);
 
+    // Prometheus metrics
+    const metrics = await axios.get(`${API}/metrics`);
+    if (!String(metrics.headers["content-type"]).startsWith("text/plain"))
+        throw new Error("metrics not in text format");
+    const published = /^broker_messages_published_total\{topic="bp"\} (\d+)$/m
+        .exec(metrics.data)?.[1];
+    if (Number(published) !== stats.data.topics.bp.messages)
+        throw new Error("published counter missing from metrics");
+    for (const series of [
+        'broker_publish_to_emit_seconds_bucket{topic="bp",le="+Inf"}',
+        'broker_fanout_subscribers_count{topic="bp"}',
+        'broker_subscriber_queue_depth{topic="bp"}',
+        "# TYPE broker_connections gauge",
+    ])
+        if (!metrics.data.includes(series))
+            throw new Error(`metrics missing ${series}`);
+
+    // Resuming from an offset that fell out of the replay buffer is signalled
+    const evicted: any[] = [];
+    await withSocket(async (sv) => {
+        sv.on("message", (m: any) => {
+            if (m.type === "info" && m.msg === "offset_evicted")
+                evicted.push(m);
+        });
+        sv.emit("message", {
+            type: "subscribe",
+            topic: "bp",
+            client_id: "ev",
+            from_offset: 0,
+        });
+        await delay(300);
+        if (!(evicted[0]?.earliest_offset > 0))
+            throw new Error("offset_evicted info not seen");
+    });
+
+    // Access control: with E2E_RESTRICTED_TOKEN standing for a principal
+    // allowed to publish and subscribe on e2e-acl.* only
+    if (RESTRICTED_TOKEN) {
+        const restricted = { Authorization: `Bearer ${RESTRICTED_TOKEN}` };
+        await axios.delete(`${API}/topics/e2e-acl.orders`).catch(() => {});
+        await axios.post(`${API}/topics`, { name: "e2e-acl.orders" });
+        // outside the prefix
+        await axios.delete(`${API}/topics/e2e-acl-hidden`).catch(() => {});
+        await axios.post(`${API}/topics`, { name: "e2e-acl-hidden" });
+
+        await expectStatus(anonymous.get(`${API}/topics`), 401);
+        await expectStatus(
+            anonymous.get(`${API}/topics`, {
+                headers: { Authorization: "Bearer not-a-key" },
+            }),
+            401
+        );
+        try {
+            await axios.post(
+                `${API}/topics/e2e-acl-hidden/messages`,
+                { id: "acl-http", payload: {} },
+                { headers: restricted }
+            );
+            throw new Error("publish without the right accepted");
+        } catch (e: any) {
+            const res = e.response;
+            if (res?.status !== 403 || res.data.error !== "UNAUTHORIZED")
+                throw e;
+        }
+        await expectStatus(
+            axios.delete(`${API}/topics/e2e-acl.orders`, {
+                headers: restricted,
+            }),
+            403
+        );
+
+        // listings show only the topics the principal may subscribe to
+        const listed = await axios.get(`${API}/topics`, {
+            headers: restricted,
+        });
+        const names = listed.data.topics.map((t: any) => t.name);
+        if (names.join() !== "e2e-acl.orders")
+            throw new Error(`topic list not filtered: ${names}`);
+        const aclStats = await axios.get(`${API}/stats`, {
+            headers: restricted,
+        });
+        if (Object.keys(aclStats.data.topics).join() !== "e2e-acl.orders")
+            throw new Error("stats not filtered");
+        const aclMetrics = await axios.get(`${API}/metrics`, {
+            headers: restricted,
+        });
+        if (aclMetrics.data.includes('topic="e2e-acl-hidden"'))
+            throw new Error("metrics not filtered");
+
+        // handshakes without valid credentials are refused
+        const handshake = await new Promise<string>((resolve) => {
+            const s = io(WS, {
+                path: "/ws",
+                transports: ["websocket"],
+                auth: { token: "not-a-key" },
+                reconnection: false,
+            });
+            s.on("connect", () => {
+                s.disconnect();
+                resolve("connected");
+            });
+            s.on("connect_error", (err) => resolve(err.message));
+        });
+        if (handshake !== "UNAUTHORIZED")
+            throw new Error(`socket.io handshake not refused: ${handshake}`);
+        const upgrade = await new Promise<number>((resolve) => {
+            const ws = new WebSocket(`${WS.replace(/^http/, "ws")}/raw`);
+            ws.on("unexpected-response", (_req, res) =>
+                resolve(res.statusCode ?? 0)
+            );
+            ws.on("open", () => {
+                ws.close();
+                resolve(101);
+            });
+            ws.on("error", () => resolve(0));
+        });
+        if (upgrade !== 401)
+            throw new Error(`/raw upgrade not refused: ${upgrade}`);
+
+        // SSE takes ?token= too, for EventSource, which sends no headers
+        const streamUrl = `${API}/topics/e2e-acl.orders/stream`;
+        await expectStatus(anonymous.get(streamUrl), 401);
+        const stream = await anonymous.get(
+            `${streamUrl}?token=${RESTRICTED_TOKEN}`,
+            { responseType: "stream" }
+        );
+        stream.data.destroy();
+        if (stream.status !== 200)
+            throw new Error(`stream with ?token= refused: ${stream.status}`);
+
+        // socket operations outside the ACL fail with the request_id echoed
+        const aclReplies: any[] = [];
+        await withSocket(
+            async (sx) => {
+                sx.on("message", (m: any) => aclReplies.push(m));
+                sx.emit("message", {
+                    type: "publish",
+                    topic: "e2e-acl-hidden",
+                    message: { id: "acl-pub", payload: {} },
+                    request_id: "acl-pub",
+                });
+                sx.emit("message", {
+                    type: "subscribe",
+                    topic: "e2e-acl-hidden",
+                    client_id: "acl-sub",
+                    request_id: "acl-sub",
+                });
+                sx.emit("message", {
+                    type: "subscribe",
+                    topic: "e2e-acl.orders",
+                    client_id: "acl-ok",
+                    request_id: "acl-ok",
+                });
+                await delay(200);
+            },
+            WS,
+            RESTRICTED_TOKEN
+        );
+        const aclReply = (id: string) =>
+            aclReplies.find((m) => m.request_id === id);
+        for (const id of ["acl-pub", "acl-sub"])
+            if (aclReply(id)?.error?.code !== "UNAUTHORIZED")
+                throw new Error(`${id} not refused`);
+        if (aclReply("acl-ok")?.type !== "ack")
+            throw new Error("allowed subscribe refused");
+
+        // publishes are metered under the principal, not a claimed client
+        await axios.post(
+            `${API}/topics/e2e-acl.orders/messages`,
+            { id: "acl-metered", payload: {} },
+            { headers: { ...restricted, "X-Client-Id": "e2e-victim" } }
+        );
+        await withSocket(
+            async (sm) => {
+                sm.emit("message", {
+                    type: "publish",
+                    topic: "e2e-acl.orders",
+                    client_id: "e2e-victim",
+                    message: { id: "acl-metered-ws", payload: {} },
+                });
+                await delay(100);
+            },
+            WS,
+            RESTRICTED_TOKEN
+        );
+        const metered = await axios.get(`${API}/usage`);
+        if (metered.data.clients.some((c: any) => c.client_id === "e2e-victim"))
+            throw new Error("publish metered under a claimed client_id");
+        await expectStatus(
+            axios.get(`${API}/usage`, { headers: restricted }),
+            403
+        );
+        await expectStatus(
+            axios.get(`${API}/usage/e2e-victim`, { headers: restricted }),
+            403
+        );
+        await axios.delete(`${API}/topics/e2e-acl.orders`);
+        await axios.delete(`${API}/topics/e2e-acl-hidden`);
+    }
+
+    // Durability: with E2E_RESTART_CMD, topics, their replay history and
+    // offsets survive a restart, including a topic that retains nothing
+    if (RESTART_CMD) {
+        for (const name of ["e2e-durable", "e2e-durable-none"])
+            await axios.delete(`${API}/topics/${name}`).catch(() => {});
+        await axios.post(`${API}/topics`, { name: "e2e-durable" });
+        await axios.post(`${API}/topics`, {
+            name: "e2e-durable-none",
+            config: { retention: 0 },
+        });
+        for (const name of ["e2e-durable", "e2e-durable-none"])
+            for (const id of ["dur-1", "dur-2", "dur-3"])
+                await axios.post(`${API}/topics/${name}/messages`, {
+                    id,
+                    payload: { id },
+                });
+        execSync(RESTART_CMD, { stdio: "inherit", timeout: 30000 });
+        for (let i = 0; i < 50; i++) {
+            const up = await axios.get(`${API}/health`).catch(() => null);
+            if (up) break;
+            await delay(200);
+        }
+        const durable = await axios.get(`${API}/topics/e2e-durable/messages`);
+        const ids = durable.data.messages.map((m: any) => m.message.id);
+        if (ids.join() !== "dur-1,dur-2,dur-3")
+            throw new Error("history lost on restart: " + ids.join());
+        const none = await axios.get(
+            `${API}/topics/e2e-durable-none/messages`
+        );
+        if (none.data.messages.length !== 0)
+            throw new Error("retention 0 topic replayed messages");
+        for (const name of ["e2e-durable", "e2e-durable-none"]) {
+            const next = await axios.post(`${API}/topics/${name}/messages`, {
+                id: "dur-4",
+                payload: { id: "dur-4" },
+            });
+            if (next.data.offset !== 3)
+                throw new Error(
+                    `${name} offset reused after restart: ${next.data.offset}`
+                );
+            await axios.delete(`${API}/topics/${name}`);
+        }
+    }
+
+    // Cluster: with PEER_API_URL/PEER_WS_URL pointing at a second node,
+    // topics and publishes made here reach its subscribers
+    if (PEER_API && PEER_WS) {
+        await axios.delete(`${API}/topics/shared`).catch(() => {});
+        await axios.post(`${API}/topics`, { name: "shared" });
+        await delay(300);
+        const peerTopic = await axios.get(`${PEER_API}/topics/shared`);
+        if (peerTopic.data.name !== "shared")
+            throw new Error("topic not created on the peer");
+        const remote: any[] = [];
+        await withSocket(async (sr) => {
+            sr.on("message", (m: any) => {
+                if (m.type === "event") remote.push(m);
+            });
+            sr.emit("message", {
+                type: "subscribe",
+                topic: "shared",
+                client_id: "remote",
+            });
+            await delay(200);
+            await axios.post(`${API}/topics/shared/messages`, {
+                id: "sh-1",
+                payload: { from: "here" },
+            });
+            await delay(300);
+        }, PEER_WS);
+        if (remote[0]?.message.id !== "sh-1")
+            throw new Error("publish not delivered on the peer");
+        // a reply to a request made on the peer is passed on, unconfirmed
+        const asked: any[] = [];
+        const answered: any[] = [];
+        await withSocket(async (responder) => {
+            responder.on("message", (m: any) => {
+                if (m.type === "event" && m.request)
+                    responder.emit("message", {
+                        type: "reply",
+                        reply_to: m.request.reply_to,
+                        correlation_id: m.request.correlation_id,
+                        message: { id: "sh-pong", payload: {} },
+                        request_id: "sh-reply",
+                    });
+                if (m.request_id === "sh-reply") answered.push(m);
+            });
+            responder.emit("message", {
+                type: "subscribe",
+                topic: "shared",
+                client_id: "sh-responder",
+            });
+            await delay(200);
+            await withSocket(async (req) => {
+                req.on("message", (m: any) => asked.push(m));
+                req.emit("message", {
+                    type: "request",
+                    topic: "shared",
+                    message: { id: "sh-ping", payload: {} },
+                    request_id: "sh-call",
+                    timeout_ms: 2000,
+                });
+                await delay(500);
+            }, PEER_WS);
+        });
+        if (asked[0]?.type !== "response" || asked[0].message.id !== "sh-pong")
+            throw new Error("reply not forwarded to the requester's node");
+        if (answered.length !== 0)
+            throw new Error("forwarded reply was acked");
+        const health = await axios.get(`${API}/health`);
+        if (!health.data.cluster.members.some((m: any) => m.up))
+            throw new Error("peer not listed as a member");
+        await axios.delete(`${PEER_API}/topics/shared`);
+        await delay(300);
+        await expectStatus(axios.get(`${API}/topics/shared`), 404);
+    }
+
     console.log("E2E ok");
 }
 